@@ -1,6 +1,10 @@
-import {OpenAPISpec, Operation, PathItem} from '../types/openapi';
+import {OpenAPISpec, Operation, Parameter, PathItem, SecurityScheme} from '../types/openapi';
+import {GuardMapping} from '../types/config';
 import {TemplateLoader} from '../utils/template-loader';
 import {DtoImporter} from '../utils/dto-importer';
+import {SchemaUtils} from '../utils/schema-utils';
+import {MediaTypeUtils} from '../utils/media-type-utils';
+import {logger} from '../utils/logger';
 
 interface ControllerMethod {
     httpMethod: string;
@@ -14,6 +18,10 @@ interface ControllerMethod {
     decorators: string[];
     allParameters?: MethodParameter[];
     abstractParameters?: AbstractParameter[];
+    formats?: string[]; // Media types negotiated through the Accept header
+    deprecated?: boolean;
+    responseHeaders?: ResponseHeader[]; // Headers the abstract method returns next to the body
+    statusResults?: boolean; // The abstract method picks the response status
 }
 
 interface AbstractParameter {
@@ -31,29 +39,94 @@ interface MethodParameter {
     schema?: any;
     description?: string;
     parameterType?: string;
+    style?: string; // Serialization of array and object query parameters
+    explode?: boolean;
+    deprecated?: boolean;
+    cookieName?: string; // Name of the cookie a cookie parameter reads
 }
 
 interface BodyParameter {
     type: string;
     decorator: string;
+    unionKind?: UnionKind;
 }
 
 interface MethodResponse {
     status: number;
     type: string;
     description: string;
+    unionKind?: UnionKind;
+    mediaTypes?: string[]; // Set for responses that are not JSON
+    negotiatedMediaTypes?: string[]; // Set for JSON responses that list other media types too
+    headers?: ResponseHeader[];
+}
+
+interface ResponseHeader {
+    name: string;
+    required: boolean;
+    description?: string;
+    schema?: any;
+}
+
+type UnionKind = 'oneOf' | 'anyOf';
+
+// The part of the platform response the wrapper sets headers on
+const PLATFORM_RESPONSE_TYPE = '{ setHeader(name: string, value: string): unknown }';
+const STATUS_RESPONSE_TYPE = '{ status(code: number): unknown; setHeader(name: string, value: string): unknown }';
+
+// A request body of another media type than JSON, documented with its own decorators
+interface MediaBody {
+    bodyParam?: BodyParameter;
+    fileParams: MethodParameter[];
+    decorators: string[];
+}
+
+export interface ControllerGeneratorOptions {
+    useSingleRequestParameter?: boolean;
+    requestMediaTypes?: string[];
+    guards?: { [securityScheme: string]: GuardMapping };
+    deprecationHeaders?: boolean;
+    responseHeaders?: boolean;
+    statusResults?: boolean;
 }
 
 export class ControllerGenerator {
     private templateLoader: TemplateLoader;
     private readonly includeErrorTypesInReturnType: boolean;
     private readonly isDtoGenerationEnabled: boolean;
+    private readonly useSingleRequestParameter: boolean;
+    private readonly requestMediaTypes: string[];
+    private readonly guards: { [securityScheme: string]: GuardMapping };
+    private readonly deprecationHeaders: boolean;
+    private readonly returnResponseHeaders: boolean;
+    private readonly statusResults: boolean;
     private inlineResponseSchemas: Map<string, any> = new Map();
-
-    constructor(templateDir?: string, includeErrorTypesInReturnType: boolean = false, isDtoGenerationEnabled: boolean = true) {
+    private queryParameterSchemas: Map<string, any> = new Map(); // Query DTO name -> object schema of the query parameters
+    private formBodySchemas: Map<string, any> = new Map(); // Form body DTO name -> object schema of the non-file fields
+    private swaggerImports = new Set<string>(); // Swagger imports needed beyond the template's default import
+    private commonImports = new Set<string>(); // @nestjs/common imports needed beyond the template's default import
+    private platformExpressImports = new Set<string>(); // File interceptors from @nestjs/platform-express
+    private guardImports = new Map<string, Set<string>>(); // Configured guards, keyed by module
+    private usesRequestHeader = false;
+    private usesCookies = false;
+    private usesCookieDocumentation = false; // Cookies documented through the generated ApiCookie decorator
+    private extraModels = new Set<string>(); // DTOs only referenced through getSchemaPath
+
+    constructor(
+        templateDir?: string,
+        includeErrorTypesInReturnType: boolean = false,
+        isDtoGenerationEnabled: boolean = true,
+        options: ControllerGeneratorOptions = {}
+    ) {
         this.templateLoader = new TemplateLoader(templateDir);
         this.includeErrorTypesInReturnType = includeErrorTypesInReturnType;
         this.isDtoGenerationEnabled = isDtoGenerationEnabled;
+        this.useSingleRequestParameter = options.useSingleRequestParameter ?? false;
+        this.requestMediaTypes = options.requestMediaTypes ?? MediaTypeUtils.DEFAULT_REQUEST_MEDIA_TYPES;
+        this.guards = options.guards ?? {};
+        this.deprecationHeaders = options.deprecationHeaders ?? false;
+        this.returnResponseHeaders = options.responseHeaders ?? false;
+        this.statusResults = options.statusResults ?? false;
     }
 
     async generateController(
@@ -61,19 +134,105 @@ export class ControllerGenerator {
         paths: { [path: string]: PathItem },
         spec: OpenAPISpec
     ): Promise<string> {
+        this.swaggerImports.clear();
+        this.commonImports.clear();
+        this.extraModels.clear();
+        this.queryParameterSchemas.clear();
+        this.formBodySchemas.clear();
+        this.platformExpressImports.clear();
+        this.guardImports.clear();
+        this.usesRequestHeader = false;
+        this.usesCookies = false;
+        this.usesCookieDocumentation = false;
+
         const methods = this.extractMethods(paths, spec);
         const tags = this.extractTags(methods);
 
         const template = await this.templateLoader.loadTemplate('controller');
         const { localDtos, sharedDtosUsed } = this.extractDtoImports(methods, spec);
 
+        const returnTypeOf = (m: ControllerMethod) => m.statusResults ? this.getStatusReturnType(m) : this.getReturnType(m);
+        const streamsFile = (m: ControllerMethod) => returnTypeOf(m).split(' | ').includes('StreamableFile');
+        const usesStreamableFile = methods.some(streamsFile);
+        if (usesStreamableFile) {
+            this.commonImports.add('StreamableFile');
+        }
+
+        const usesDeprecationInterceptor = this.deprecationHeaders && methods.some(m => m.deprecated);
+        if (usesDeprecationInterceptor) {
+            this.commonImports.add('NestInterceptor');
+            this.commonImports.add('CallHandler');
+            // The template imports ExecutionContext along with the parameter decorators
+            if (!this.usesRequestHeader && !this.usesCookies) {
+                this.commonImports.add('ExecutionContext');
+            }
+        }
+
+        const resultTypes = methods.filter(m => m.responseHeaders).map(m => ({
+            name: this.getResultTypeName(m.methodName),
+            bodyType: this.getAbstractReturnType(m),
+            headers: m.responseHeaders!.map(header => ({
+                key: this.getPropertyKey(header.name),
+                type: this.getParamType(header.schema),
+                required: header.required,
+                description: header.description
+            }))
+        }));
+
+        const statusResultTypes = methods.filter(m => m.statusResults).map(m => ({
+            name: this.getResultTypeName(m.methodName),
+            variants: this.getStatusResultVariants(m)
+        }));
+
+        const negotiatingMethods = methods.filter(m => m.formats);
+        const formatTypes = negotiatingMethods.map(m =>
+            `export type ${this.getFormatTypeName(m.methodName)} = ${m.formats!.map(f => `'${f}'`).join(' | ')};`);
+        const serializedFormats = negotiatingMethods
+            .flatMap(m => m.formats!)
+            .filter((mediaType, index, array) => array.indexOf(mediaType) === index)
+            .filter(mediaType => MediaTypeUtils.getBodyKind(mediaType) !== 'json')
+            .map(mediaType => ({
+                mediaType,
+                bodyType: this.getSerializedBodyType(negotiatingMethods.filter(m => m.formats!.includes(mediaType)))
+            }));
+
+        const classDecorators: string[] = [];
+        if (this.extraModels.size > 0) {
+            this.swaggerImports.add('ApiExtraModels');
+            classDecorators.push(`@ApiExtraModels(${Array.from(this.extraModels).join(', ')})`);
+        }
+
         return template({
             className: this.generateClassName(resourceName) + 'Controller',
             resourceName: resourceName.toLowerCase(),
             tags,
+            classDecorators,
+            swaggerImports: Array.from(this.swaggerImports),
+            commonImports: Array.from(this.commonImports),
+            platformExpressImports: Array.from(this.platformExpressImports),
+            guardImports: Array.from(this.guardImports.entries())
+                .map(([module, names]) => ({ module, names: Array.from(names).join(', ') })),
+            paramDecorators: this.usesRequestHeader || this.usesCookies,
+            requestHeaderDecorator: this.usesRequestHeader,
+            cookiesDecorator: this.usesCookies,
+            cookieDocumentationDecorator: this.usesCookieDocumentation,
+            streamableFileHelper: usesStreamableFile,
+            contentNegotiation: negotiatingMethods.length > 0,
+            deprecationInterceptor: usesDeprecationInterceptor,
+            formatTypes,
+            serializedFormats,
+            platformResponseType: PLATFORM_RESPONSE_TYPE,
+            resultTypes,
+            statusResultTypes,
+            statusResponseType: STATUS_RESPONSE_TYPE,
             methods: methods.map(m => ({
                 ...m,
-                returnType: this.getReturnType(m),
+                returnType: m.formats ? `${returnTypeOf(m)} | string | Buffer` : returnTypeOf(m),
+                formatList: m.formats?.map(f => `'${f}'`).join(', '),
+                abstractReturnType: m.responseHeaders || m.statusResults
+                    ? this.getResultTypeName(m.methodName)
+                    : this.getAbstractReturnType(m),
+                streamsFile: streamsFile(m),
                 hasParams: (m.allParameters && m.allParameters.length > 0) || m.parameters.length > 0 || !!m.bodyParam
             })),
             dtoImports: this.isDtoGenerationEnabled ? DtoImporter.generateImportStatements(localDtos, sharedDtosUsed, resourceName): undefined,
@@ -96,7 +255,7 @@ export class ControllerGenerator {
                 const controllerMethod = this.processOperation(
                     method,
                     pathStr,
-                    operation,
+                    { ...operation, parameters: SchemaUtils.mergeParameters(pathItem.parameters, operation.parameters) },
                     spec
                 );
                 methods.push(controllerMethod);
@@ -113,12 +272,26 @@ export class ControllerGenerator {
         spec: OpenAPISpec,
     ): ControllerMethod {
         const methodName = operation.operationId || this.generateMethodName(httpMethod, path);
-        const allParameters = this.processParameters(operation.parameters || []);
+        const queryParam = this.processQueryParameters(methodName, operation.parameters || []);
+        const allParameters = this.processParameters(
+            (operation.parameters || []).filter(param => !queryParam || param.in !== 'query'),
+            methodName,
+            spec
+        );
         const originalSpec = (spec as any)._originalSpec;
-        const bodyParam = this.processRequestBody(operation.requestBody, operation.operationId, originalSpec);
+        const mediaType = MediaTypeUtils.selectMediaType(operation.requestBody?.content, this.requestMediaTypes);
+        const mediaBody = mediaType && MediaTypeUtils.getBodyKind(mediaType) !== 'json'
+            ? this.processMediaBody(operation.requestBody, mediaType, methodName)
+            : undefined;
+        const bodyParam = mediaBody
+            ? mediaBody.bodyParam
+            : this.processRequestBody(operation.requestBody, operation.operationId, originalSpec, spec, mediaType);
 
         // Combine parameters and body param for proper sorting
         const allMethodParams = [...allParameters];
+        if (queryParam) {
+            allMethodParams.push(queryParam);
+        }
         if (bodyParam) {
             // Convert body param to parameter format for sorting
             const bodyAsParam: MethodParameter = {
@@ -130,13 +303,43 @@ export class ControllerGenerator {
             };
             allMethodParams.push(bodyAsParam);
         }
+        if (mediaBody) {
+            allMethodParams.push(...mediaBody.fileParams);
+        }
+
+        const responses = this.processResponses(operation.responses, operation.operationId, originalSpec);
+        const formats = this.getNegotiatedFormats(responses);
+        const statusResults = this.statusResults && this.getStatusResponses(responses).length > 0;
+        // Status results carry the headers of each response themselves
+        const responseHeaders = this.returnResponseHeaders && !statusResults ? this.getSuccessHeaders(responses) : undefined;
+        if (formats) {
+            // The wrapper negotiates the format from the Accept header and sets the Content-Type itself
+            allMethodParams.push(
+                { name: 'accept', type: 'string | undefined', decorator: `@Headers('accept')`, required: true, parameterType: 'wrapper' }
+            );
+        }
+        if (formats || responseHeaders || statusResults) {
+            this.commonImports.add('Res');
+            const responseType = statusResults ? STATUS_RESPONSE_TYPE : PLATFORM_RESPONSE_TYPE;
+            allMethodParams.push(
+                { name: 'response', type: responseType, decorator: '@Res({ passthrough: true })', required: true, parameterType: 'wrapper' }
+            );
+        }
 
         // Sort all parameters including body
         const sortedParams = this.sortParameters(allMethodParams);
-        const abstractParams = this.createAbstractParameters(sortedParams);
+        const abstractParams = this.createAbstractParameters(sortedParams.filter(p => p.parameterType !== 'wrapper'));
+        if (formats) {
+            // The format hint goes after the required parameters
+            const requiredCount = abstractParams.filter(p => !p.name.endsWith('?')).length;
+            abstractParams.splice(requiredCount, 0, { name: 'format', type: this.getFormatTypeName(methodName), callName: 'format' });
+        }
 
-        const responses = this.processResponses(operation.responses, operation.operationId, originalSpec);
-        const decorators = this.buildDecorators(operation, allParameters, responses);
+        const decorators = this.buildDecorators(operation, spec, allParameters, responses, bodyParam, mediaBody);
+        decorators.push(...this.buildSecurityDecorators(operation, spec));
+        if (operation.deprecated && this.deprecationHeaders) {
+            decorators.push(this.getDeprecationInterceptor(operation));
+        }
 
         // Convert OpenAPI path format to NestJS format and ensure it starts with /
         const fullPath = path.startsWith('/') ? path : '/' + path;
@@ -153,28 +356,59 @@ export class ControllerGenerator {
             responses,
             decorators,
             allParameters: sortedParams, // Add sorted parameters for template
-            abstractParameters: abstractParams // Add abstract parameters for template
+            abstractParameters: abstractParams, // Add abstract parameters for template
+            formats,
+            deprecated: operation.deprecated === true,
+            responseHeaders,
+            statusResults
         };
     }
 
-    private processParameters(parameters: any[]): MethodParameter[] {
+    private processParameters(parameters: any[], methodName: string, spec: OpenAPISpec): MethodParameter[] {
         return parameters.map(param => {
-            const type = this.getParamType(param.schema);
+            let type = this.getParamType(param.schema);
             const isRequired = param.required === true || param.in === 'path';
 
             let decoratorType: string;
             let paramName: string;
             let decorator: string;
+            let serialization: Pick<MethodParameter, 'style' | 'explode'> = {};
+            let cookieName: string | undefined;
 
             if (param.in === 'header') {
                 // For header parameters, use @Headers() and convert hyphenated names to camelCase
-                decoratorType = 'Headers';
+                const pipe = this.getParameterPipe(param.schema, isRequired);
+                decoratorType = pipe ? 'RequestHeader' : 'Headers';
                 paramName = this.toCamelCase(param.name);
-                decorator = `@${decoratorType}('${param.name}')`;
+                decorator = pipe ? `@${decoratorType}('${param.name}', ${pipe})` : `@${decoratorType}('${param.name}')`;
+                this.usesRequestHeader = this.usesRequestHeader || !!pipe;
             } else if (param.in === 'path') {
+                const pipe = this.getParameterPipe(param.schema, isRequired);
                 decoratorType = 'Param';
                 paramName = param.name;
-                decorator = `@${decoratorType}('${param.name}')`;
+                decorator = pipe ? `@${decoratorType}('${param.name}', ${pipe})` : `@${decoratorType}('${param.name}')`;
+            } else if (param.in === 'cookie') {
+                // NestJS has no cookie decorator, the template declares @Cookies() for cookie-parser
+                const pipe = this.getParameterPipe(param.schema, isRequired);
+                decoratorType = 'Cookies';
+                paramName = this.toCamelCase(param.name);
+                decorator = pipe ? `@${decoratorType}('${param.name}', ${pipe})` : `@${decoratorType}('${param.name}')`;
+                cookieName = param.name;
+                this.usesCookies = true;
+            } else if (param.in === 'query') {
+                const objectType = this.getQueryObjectType(param, methodName, spec);
+                const pipe = objectType ? undefined : this.getQueryArrayPipe(param, isRequired);
+                decoratorType = 'Query';
+                paramName = SchemaUtils.toPropertyName(param.name);
+                if (objectType) {
+                    type = objectType;
+                }
+                // Exploded form objects spread their properties over the whole query string
+                decorator = objectType && SchemaUtils.isFormExplodedObject(param) ? '@Query()'
+                    : pipe ? `@${decoratorType}('${param.name}', ${pipe})` : `@${decoratorType}('${param.name}')`;
+                if (objectType || pipe) {
+                    serialization = this.getQuerySerialization(param);
+                }
             } else {
                 decoratorType = this.capitalize(param.in);
                 paramName = param.name;
@@ -191,11 +425,126 @@ export class ControllerGenerator {
                 required: isRequired,
                 schema: param.schema,
                 description: param.description,
-                parameterType: param.in // Add parameter type for sorting
+                parameterType: param.in, // Add parameter type for sorting
+                deprecated: param.deprecated === true || undefined,
+                cookieName,
+                ...serialization
             };
         });
     }
 
+    /**
+     * Groups the query parameters of an operation into a single validated DTO parameter
+     * when useSingleRequestParameter is enabled.
+     */
+    private processQueryParameters(methodName: string, parameters: any[]): MethodParameter | undefined {
+        const queryParameters = parameters.filter(param => param.in === 'query');
+        if (!this.useSingleRequestParameter || !this.isDtoGenerationEnabled || queryParameters.length === 0) {
+            return undefined;
+        }
+
+        const properties: { [name: string]: any } = {};
+        const required: string[] = [];
+        for (const param of queryParameters) {
+            const schema = param.schema || { type: 'string' };
+            if (SchemaUtils.isFormExplodedObject(param)) {
+                // The properties of an exploded form object are sent as top-level query keys
+                Object.assign(properties, schema.properties);
+                required.push(...(param.required === true ? schema.required || [] : []));
+                continue;
+            }
+
+            // Delimited arrays keep their serialization so the DTO can split them
+            const { style, explode }: Pick<Parameter, 'style' | 'explode'> = schema.type === 'array' ? param : {};
+            properties[param.name] = param.description || style || explode !== undefined || param.deprecated
+                ? {
+                    ...schema,
+                    ...(param.description ? { description: param.description } : {}),
+                    ...(style ? { style } : {}),
+                    ...(explode !== undefined ? { explode } : {}),
+                    ...(param.deprecated ? { deprecated: true } : {})
+                }
+                : schema;
+            if (param.required === true) {
+                required.push(param.name);
+            }
+        }
+
+        const dtoName = DtoImporter.getQueryDtoName(methodName);
+        this.queryParameterSchemas.set(dtoName, { type: 'object', properties, required });
+
+        return {
+            name: 'query',
+            type: dtoName,
+            decorator: '@Query()',
+            required: true,
+            parameterType: 'query'
+        };
+    }
+
+    /**
+     * Types a deepObject or exploded form object query parameter as a DTO. Inline objects get their
+     * own query DTO so their string values are converted like the other query parameters.
+     */
+    private getQueryObjectType(param: any, methodName: string, spec: OpenAPISpec): string | undefined {
+        const dtoName = this.isDtoGenerationEnabled
+            ? DtoImporter.getQueryObjectDtoType(param, methodName, spec)
+            : undefined;
+        if (dtoName === DtoImporter.getQueryObjectDtoName(methodName, param.name)) {
+            this.queryParameterSchemas.set(dtoName, SchemaUtils.withoutNull(param.schema));
+        }
+        return dtoName;
+    }
+
+    private getQueryArrayPipe(param: any, isRequired: boolean): string | undefined {
+        if (SchemaUtils.withoutNull(param.schema || {}).type !== 'array') {
+            return undefined;
+        }
+        // Exploded arrays arrive as repeated keys, which the pipe passes through as they are
+        const separator = SchemaUtils.getQueryArrayDelimiter(param.style, param.explode) ?? ',';
+        return this.getParameterPipe(param.schema, isRequired, separator);
+    }
+
+    private getQuerySerialization(param: any): Pick<MethodParameter, 'style' | 'explode'> {
+        const style = param.style || 'form';
+        return { style, explode: param.explode ?? style === 'form' };
+    }
+
+    /**
+     * Picks the built-in pipe that converts a path or header value to the type in the method signature.
+     */
+    private getParameterPipe(schema: any, isRequired: boolean, separator: string = ','): string | undefined {
+        const paramSchema = SchemaUtils.withoutNull(schema || {});
+        const optional = isRequired ? undefined : 'optional: true';
+
+        if (Array.isArray(paramSchema.enum) && paramSchema.type !== 'integer' && paramSchema.type !== 'number') {
+            this.commonImports.add('ParseEnumPipe');
+            // Path and header values are strings, so every member is compared in its string form
+            const values = paramSchema.enum
+                .map((value: any) => `'${String(value).replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`)
+                .join(', ');
+            return `new ParseEnumPipe([${values}]${optional ? `, { ${optional} }` : ''})`;
+        }
+
+        if (paramSchema.type === 'array') {
+            const itemType = this.getTypeClass(this.getParamType(paramSchema.items));
+            this.commonImports.add('ParseArrayPipe');
+            return `new ParseArrayPipe({ items: ${itemType}, separator: '${separator}'${optional ? `, ${optional}` : ''} })`;
+        }
+
+        const pipe = paramSchema.type === 'integer' ? 'ParseIntPipe'
+            : paramSchema.type === 'number' ? 'ParseFloatPipe'
+                : paramSchema.type === 'boolean' ? 'ParseBoolPipe'
+                    : paramSchema.type === 'string' && paramSchema.format === 'uuid' ? 'ParseUUIDPipe'
+                        : undefined;
+        if (!pipe) {
+            return undefined;
+        }
+
+        this.commonImports.add(pipe);
+        return optional ? `new ${pipe}({ ${optional} })` : pipe;
+    }
+
     private sortParameters(parameters: MethodParameter[]): MethodParameter[] {
         // Define parameter type priority: path > body > query > header > others
         const getParameterTypePriority = (param: MethodParameter): number => {
@@ -252,12 +601,18 @@ export class ControllerGenerator {
         });
     }
 
-    private processRequestBody(requestBody?: any, operationId?: string, originalSpec?: any): BodyParameter | undefined {
+    private processRequestBody(
+        requestBody?: any,
+        operationId?: string,
+        originalSpec?: any,
+        spec?: OpenAPISpec,
+        mediaType: string = 'application/json'
+    ): BodyParameter | undefined {
         if (!requestBody || !requestBody.content) {
             return undefined;
         }
 
-        const content = requestBody.content['application/json'];
+        const content = requestBody.content[mediaType];
         if (!content || !content.schema) {
             return undefined;
         }
@@ -265,10 +620,23 @@ export class ControllerGenerator {
         // Try to find the original reference in the unresolved spec
         let originalRef: string | undefined;
         if (originalSpec && operationId) {
-            originalRef = this.findOriginalSchemaRef(originalSpec, operationId, 'requestBody');
+            originalRef = this.findOriginalSchemaRef(originalSpec, operationId, 'requestBody', undefined, mediaType);
+        }
+
+        const unionKind = this.getUnionKind(content.schema);
+        if (unionKind) {
+            const originalSchema = originalSpec && operationId
+                ? this.findOriginalSchema(originalSpec, operationId, 'requestBody', undefined, mediaType)
+                : undefined;
+            return {
+                type: this.getUnionType(content.schema, originalSchema),
+                decorator: '@Body()',
+                unionKind
+            };
         }
 
         let type = this.getSchemaType(content.schema, originalRef);
+        type = DtoImporter.getRequestBodyDtoType(type, content.schema, spec);
 
         // If it's still 'any', leave it as 'any' - we should only use actual schema names
 
@@ -278,6 +646,159 @@ export class ControllerGenerator {
         };
     }
 
+    private processMediaBody(requestBody: any, mediaType: string, methodName: string): MediaBody {
+        const schema = SchemaUtils.withoutNull(requestBody.content[mediaType]?.schema || {});
+        this.swaggerImports.add('ApiConsumes');
+        this.swaggerImports.add('ApiBody');
+        const decorators = [`@ApiConsumes('${mediaType}')`];
+
+        switch (MediaTypeUtils.getBodyKind(mediaType)) {
+            case 'multipart':
+                return this.processFormBody(schema, methodName, decorators, true);
+            case 'form':
+                return this.processFormBody(schema, methodName, decorators, false);
+            case 'text':
+                decorators.push(`@ApiBody({ schema: { type: 'string' } })`);
+                return { bodyParam: { type: 'string', decorator: '@Body()' }, fileParams: [], decorators };
+            default:
+                decorators.push(`@ApiBody({ schema: { type: 'string', format: 'binary' } })`);
+                return { bodyParam: { type: 'Buffer', decorator: '@Body()' }, fileParams: [], decorators };
+        }
+    }
+
+    /**
+     * Splits a form body into uploaded file parameters (multipart only) and a DTO for the other fields,
+     * whose values arrive as strings and are converted like query parameters.
+     */
+    private processFormBody(schema: any, methodName: string, decorators: string[], hasFiles: boolean): MediaBody {
+        const properties = Object.entries(schema.properties || {}) as [string, any][];
+        const required: string[] = schema.required || [];
+        const fields = properties.filter(([_, property]) => !hasFiles || !SchemaUtils.isFileSchema(property));
+        decorators.push(`@ApiBody({ schema: ${this.getFormSwaggerSchema({ type: 'object', ...schema })} })`);
+
+        let bodyParam: BodyParameter | undefined;
+        if (fields.length > 0) {
+            const dtoName = DtoImporter.getFormBodyDtoName(methodName);
+            if (this.isDtoGenerationEnabled) {
+                this.formBodySchemas.set(dtoName, {
+                    type: 'object',
+                    properties: Object.fromEntries(fields),
+                    required: required.filter(name => fields.some(([field]) => field === name))
+                });
+            }
+            bodyParam = { type: this.isDtoGenerationEnabled ? dtoName : 'any', decorator: '@Body()' };
+        } else if (!hasFiles) {
+            // A url-encoded body without a declared schema is still a set of string fields
+            bodyParam = { type: '{ [field: string]: string }', decorator: '@Body()' };
+        }
+
+        const fileFields = hasFiles ? properties.filter(([_, property]) => SchemaUtils.isFileSchema(property)) : [];
+        return { bodyParam, fileParams: this.getFileParameters(fileFields, required, decorators), decorators };
+    }
+
+    private getFileParameters(fileFields: [string, any][], required: string[], decorators: string[]): MethodParameter[] {
+        if (fileFields.length === 0) {
+            return [];
+        }
+        this.commonImports.add('UseInterceptors');
+
+        if (fileFields.length === 1) {
+            const [fieldName, property] = fileFields[0];
+            const fieldSchema = SchemaUtils.withoutNull(property);
+            const isArray = fieldSchema.type === 'array';
+            const isRequired = required.includes(fieldName);
+            const pipe = this.getFilePipe(isArray ? fieldSchema.items : fieldSchema, isRequired) || '';
+            const decorator = isArray ? 'UploadedFiles' : 'UploadedFile';
+            const interceptor = isArray ? 'FilesInterceptor' : 'FileInterceptor';
+            const maxCount = isArray && fieldSchema.maxItems !== undefined ? `, ${fieldSchema.maxItems}` : '';
+            this.commonImports.add(decorator);
+            this.platformExpressImports.add(interceptor);
+            decorators.push(`@UseInterceptors(${interceptor}('${fieldName}'${maxCount}))`);
+
+            const paramName = this.toCamelCase(fieldName);
+            return [{
+                name: isRequired ? paramName : `${paramName}?`,
+                type: isArray ? 'Express.Multer.File[]' : 'Express.Multer.File',
+                decorator: `@${decorator}(${pipe})`,
+                required: isRequired,
+                parameterType: 'file'
+            }];
+        }
+
+        // Several file fields arrive together, keyed by field name
+        this.commonImports.add('UploadedFiles');
+        this.platformExpressImports.add('FileFieldsInterceptor');
+        const fields = fileFields.map(([fieldName, property]) => {
+            const fieldSchema = SchemaUtils.withoutNull(property);
+            const maxCount = fieldSchema.type !== 'array' ? 1 : fieldSchema.maxItems;
+            return `{ name: '${fieldName}'${maxCount !== undefined ? `, maxCount: ${maxCount}` : ''} }`;
+        });
+        decorators.push(`@UseInterceptors(FileFieldsInterceptor([${fields.join(', ')}]))`);
+
+        const keys = fileFields.map(([fieldName]) => `${this.getPropertyKey(fieldName)}?: Express.Multer.File[]`);
+        return [{
+            name: 'files',
+            type: `{ ${keys.join('; ')} }`,
+            decorator: '@UploadedFiles()',
+            required: true,
+            parameterType: 'file'
+        }];
+    }
+
+    /**
+     * Validates an uploaded file with ParseFilePipe: `maxLength` is its size in bytes and
+     * `contentMediaType` its MIME type.
+     */
+    private getFilePipe(schema: any, isRequired: boolean): string | undefined {
+        const validators: string[] = [];
+        if (typeof schema?.maxLength === 'number') {
+            this.commonImports.add('MaxFileSizeValidator');
+            validators.push(`new MaxFileSizeValidator({ maxSize: ${schema.maxLength} })`);
+        }
+        if (schema?.contentMediaType) {
+            this.commonImports.add('FileTypeValidator');
+            validators.push(`new FileTypeValidator({ fileType: '${schema.contentMediaType}' })`);
+        }
+        if (validators.length === 0 && !isRequired) {
+            return undefined;
+        }
+
+        this.commonImports.add('ParseFilePipe');
+        const options: string[] = [];
+        if (validators.length > 0) {
+            options.push(`validators: [${validators.join(', ')}]`);
+        }
+        if (!isRequired) {
+            options.push('fileIsRequired: false');
+        }
+        return options.length > 0 ? `new ParseFilePipe({ ${options.join(', ')} })` : 'new ParseFilePipe()';
+    }
+
+    private getFormSwaggerSchema(schema: any): string {
+        const fieldSchema = SchemaUtils.withoutNull(schema || {});
+        if (SchemaUtils.isFileSchema(fieldSchema) && fieldSchema.type !== 'array') {
+            return `{ type: 'string', format: 'binary' }`;
+        }
+        if (fieldSchema.type === 'array') {
+            return `{ type: 'array', items: ${this.getFormSwaggerSchema(fieldSchema.items)} }`;
+        }
+        if (fieldSchema.type === 'object' && fieldSchema.properties) {
+            const required = (fieldSchema.required || []).map((name: string) => `'${name}'`);
+            const properties = Object.entries(fieldSchema.properties)
+                .map(([name, property]) => `${this.getPropertyKey(name)}: ${this.getFormSwaggerSchema(property)}`);
+            return `{ type: 'object'${required.length > 0 ? `, required: [${required.join(', ')}]` : ''}, properties: { ${properties.join(', ')} } }`;
+        }
+
+        const parts = [`type: '${typeof fieldSchema.type === 'string' ? fieldSchema.type : 'string'}'`];
+        if (fieldSchema.format) {
+            parts.push(`format: '${fieldSchema.format}'`);
+        }
+        if (Array.isArray(fieldSchema.enum)) {
+            parts.push(`enum: [${fieldSchema.enum.map((value: any) => typeof value === 'string' ? `'${value}'` : String(value)).join(', ')}]`);
+        }
+        return `{ ${parts.join(', ')} }`;
+    }
+
     private processResponses(responses: any, operationId?: string, originalSpec?: any): MethodResponse[] {
         const responseEntries = Object.entries(responses);
         const successResponses = responseEntries.filter(([status]) => {
@@ -287,14 +808,36 @@ export class ControllerGenerator {
         const hasMultipleSuccessResponses = successResponses.length > 1;
 
         return responseEntries.map(([status, response]: [string, any]) => {
-            const content = response.content?.['application/json'];
-            let type = 'void';
+            const mediaTypes = Object.keys(response.content || {});
+            const mediaType = mediaTypes.includes('application/json')
+                ? 'application/json'
+                : mediaTypes.find(mt => MediaTypeUtils.getBodyKind(mt) === 'json');
+            if (!mediaType && mediaTypes.length > 0) {
+                // Text responses are sent as strings, anything else is streamed back as a file
+                const isText = mediaTypes.every(mt => MediaTypeUtils.getBodyKind(mt) === 'text');
+                return {
+                    status: parseInt(status),
+                    type: isText ? 'string' : 'StreamableFile',
+                    description: response.description,
+                    mediaTypes,
+                    headers: this.getResponseHeaders(response)
+                };
+            }
 
-            if (content && content.schema) {
+            const content = mediaType ? response.content[mediaType] : undefined;
+            let type = 'void';
+            const unionKind = content?.schema ? this.getUnionKind(content.schema) : undefined;
+
+            if (unionKind) {
+                const originalSchema = originalSpec && operationId
+                    ? this.findOriginalSchema(originalSpec, operationId, 'response', status, mediaType)
+                    : undefined;
+                type = this.getUnionType(content.schema, originalSchema);
+            } else if (content && content.schema) {
                 // Try to find the original reference in the unresolved spec
                 let originalRef: string | undefined;
                 if (originalSpec && operationId) {
-                    originalRef = this.findOriginalSchemaRef(originalSpec, operationId, 'response', status);
+                    originalRef = this.findOriginalSchemaRef(originalSpec, operationId, 'response', status, mediaType);
                 }
 
                 // Pass status only if we have multiple success responses to avoid naming conflicts
@@ -310,26 +853,247 @@ export class ControllerGenerator {
             return {
                 status: parseInt(status),
                 type,
-                description: response.description
+                description: response.description,
+                unionKind: type !== 'any' ? unionKind : undefined,
+                negotiatedMediaTypes: mediaTypes.length > 1 ? mediaTypes : undefined,
+                headers: this.getResponseHeaders(response)
             };
         });
     }
 
+    private getDeprecationInterceptor(operation: Operation): string {
+        this.commonImports.add('UseInterceptors');
+        const sunset = operation['x-sunset'];
+        if (sunset === undefined) {
+            return '@UseInterceptors(new DeprecationInterceptor())';
+        }
+        // The Sunset header carries an HTTP date, YAML dates arrive as Date objects
+        const date = new Date(sunset);
+        const value = isNaN(date.getTime()) ? String(sunset) : date.toUTCString();
+        return `@UseInterceptors(new DeprecationInterceptor('${value}'))`;
+    }
+
+    private buildSecurityDecorators(operation: Operation, spec: OpenAPISpec): string[] {
+        // An explicitly empty requirement list opts the operation out of the root level security
+        if (operation.security && operation.security.length === 0) {
+            this.commonImports.add('SetMetadata');
+            return [`@SetMetadata('isPublic', true)`];
+        }
+
+        const security = operation.security ?? spec.security ?? [];
+        const schemes = spec.components?.securitySchemes || {};
+        const decorators: string[] = [];
+
+        security.forEach(requirement => {
+            const names = Object.keys(requirement);
+            if (names.length > 1) {
+                // Schemes of one requirement apply together
+                const schemeScopes = names
+                    .map(name => `${this.getPropertyKey(name)}: [${this.quoteAll(requirement[name])}]`);
+                this.swaggerImports.add('ApiSecurity');
+                decorators.push(`@ApiSecurity({ ${schemeScopes.join(', ')} })`);
+            } else if (names.length === 1) {
+                decorators.push(this.getSecurityDecorator(names[0], schemes[names[0]], requirement[names[0]]));
+            }
+        });
+
+        // Guards of one requirement all have to pass, while requirements are alternatives to each other
+        const requirementGuards = security.map(requirement => Object.keys(requirement)
+            .map(name => this.guards[name])
+            .filter((guard): guard is GuardMapping => !!guard)
+            .filter((guard, index, array) => array.findIndex(g => g.name === guard.name) === index));
+        const guards = requirementGuards[0] || [];
+        const sameGuards = requirementGuards.every(alternative => alternative.length === guards.length
+            && alternative.every(guard => guards.some(g => g.name === guard.name)));
+        if (!sameGuards) {
+            logger.warn(`Operation ${operation.operationId || ''} accepts alternative security requirements with different guards; skipping @UseGuards. Map the alternatives to one guard that accepts either of them.`);
+        } else if (guards.length > 0) {
+            guards.forEach(guard => {
+                if (!this.guardImports.has(guard.module)) {
+                    this.guardImports.set(guard.module, new Set<string>());
+                }
+                this.guardImports.get(guard.module)!.add(guard.name);
+            });
+            this.commonImports.add('UseGuards');
+            decorators.push(`@UseGuards(${guards.map(guard => guard.name).join(', ')})`);
+        }
+
+        // Lets a scope guard enforce the scopes declared in the contract, one list per alternative requirement
+        const scopes = security.map(requirement => Object.values(requirement)
+            .flat()
+            .filter((scope, index, array) => array.indexOf(scope) === index));
+        if (scopes.some(alternative => alternative.length > 0)) {
+            this.commonImports.add('SetMetadata');
+            decorators.push(`@SetMetadata('scopes', [${scopes.map(alternative => `[${this.quoteAll(alternative)}]`).join(', ')}])`);
+        }
+        return decorators;
+    }
+
+    private getSecurityDecorator(name: string, scheme: SecurityScheme | undefined, scopes: string[] = []): string {
+        const httpScheme = scheme?.type === 'http' ? scheme.scheme?.toLowerCase() : undefined;
+        if (httpScheme === 'bearer') {
+            this.swaggerImports.add('ApiBearerAuth');
+            return `@ApiBearerAuth('${name}')`;
+        }
+        if (httpScheme === 'basic') {
+            this.swaggerImports.add('ApiBasicAuth');
+            return `@ApiBasicAuth('${name}')`;
+        }
+        if (scheme?.type === 'oauth2') {
+            this.swaggerImports.add('ApiOAuth2');
+            return `@ApiOAuth2([${this.quoteAll(scopes)}], '${name}')`;
+        }
+        // API keys, OpenID Connect and any other scheme
+        this.swaggerImports.add('ApiSecurity');
+        return scopes.length > 0
+            ? `@ApiSecurity('${name}', [${this.quoteAll(scopes)}])`
+            : `@ApiSecurity('${name}')`;
+    }
+
+    // Swagger schema options of a header or cookie parameter
+    private getParameterSchemaProps(schema: any): string[] {
+        const schemaProps: string[] = [];
+        if (schema) {
+            const parameterSchema = SchemaUtils.withoutNull(schema);
+            if (parameterSchema.type) {
+                schemaProps.push(`type: '${parameterSchema.type}'`);
+            }
+            if (parameterSchema.pattern) {
+                schemaProps.push(`pattern: '${parameterSchema.pattern}'`);
+            }
+            if (parameterSchema.format) {
+                schemaProps.push(`format: '${parameterSchema.format}'`);
+            }
+            if (SchemaUtils.isNullable(schema)) {
+                schemaProps.push('nullable: true');
+            }
+        }
+        return schemaProps;
+    }
+
+    private quoteAll(values: string[]): string {
+        return values.map(value => `'${value}'`).join(', ');
+    }
+
+    private getResponseHeaders(response: any): ResponseHeader[] | undefined {
+        const headers = Object.entries(response.headers || {}).map(([name, header]: [string, any]) => ({
+            name,
+            required: header.required === true,
+            description: header.description,
+            schema: header.schema
+        }));
+        return headers.length > 0 ? headers : undefined;
+    }
+
+    // Headers of the success responses, required when every success response requires them
+    private getSuccessHeaders(responses: MethodResponse[]): ResponseHeader[] | undefined {
+        const successResponses = responses.filter(r => r.status >= 200 && r.status < 300);
+        const headers: ResponseHeader[] = [];
+        successResponses.flatMap(r => r.headers || []).forEach(header => {
+            if (!headers.some(h => h.name.toLowerCase() === header.name.toLowerCase())) {
+                const required = successResponses.every(r =>
+                    r.headers?.some(h => h.name.toLowerCase() === header.name.toLowerCase() && h.required));
+                headers.push({ ...header, required });
+            }
+        });
+        return headers.length > 0 ? headers : undefined;
+    }
+
+    private getSwaggerHeaders(headers: ResponseHeader[]): string {
+        const entries = headers.map(header => {
+            const options: string[] = [];
+            if (header.description) {
+                options.push(`description: '${header.description.replace(/'/g, "\\'")}'`);
+            }
+            if (header.required) {
+                options.push('required: true');
+            }
+            options.push(`schema: ${this.getFormSwaggerSchema(header.schema || { type: 'string' })}`);
+            return `${this.getPropertyKey(header.name)}: { ${options.join(', ')} }`;
+        });
+        return `{ ${entries.join(', ')} }`;
+    }
+
+    private getPropertyKey(name: string): string {
+        return /^[A-Za-z_$][\w$]*$/.test(name) ? name : `'${name}'`;
+    }
+
+    // Responses with an actual status code, 'default' and ranges like '4XX' have none
+    private getStatusResponses(responses: MethodResponse[]): MethodResponse[] {
+        return responses.filter(r => Number.isInteger(r.status) && r.status >= 100 && r.status < 600);
+    }
+
+    // One variant per response, so implementations can send any declared status
+    private getStatusResultVariants(method: ControllerMethod): string[] {
+        return this.getStatusResponses(method.responses).map(r => {
+            const body = r.type === 'StreamableFile' ? 'StreamableFile | Uint8Array | Readable' : r.type;
+            const headers = this.returnResponseHeaders && r.headers
+                ? `; headers: { ${r.headers.map(h => `${this.getPropertyKey(h.name)}${h.required ? '' : '?'}: ${this.getParamType(h.schema)}`).join('; ')} }`
+                : '';
+            return `{ status: ${r.status}; body: ${body}${headers} }`;
+        });
+    }
+
+    // What the wrapper may send back when the abstract method picks the status
+    private getStatusReturnType(method: ControllerMethod): string {
+        const types = this.getStatusResponses(method.responses)
+            .map(r => r.type)
+            .filter((type, index, array) => array.indexOf(type) === index);
+        return types.length > 0 ? types.join(' | ') : 'void';
+    }
+
+    // The success bodies a serializer receives from the operations that offer its media type
+    private getSerializedBodyType(methods: ControllerMethod[]): string {
+        const types = methods
+            .flatMap(m => m.responses.filter(r => r.status >= 200 && r.status < 300).map(r => r.type))
+            .flatMap(type => type.split(' | '))
+            .filter(type => type !== 'void')
+            .filter((type, index, array) => array.indexOf(type) === index);
+        return types.includes('any') || types.length === 0 ? 'any' : types.join(' | ');
+    }
+
+    private getResultTypeName(methodName: string): string {
+        return `${this.capitalize(methodName)}Result`;
+    }
+
+    // The media types of a success response the client can choose from, when there is more than one
+    private getNegotiatedFormats(responses: MethodResponse[]): string[] | undefined {
+        const formats = responses
+            .filter(r => r.status >= 200 && r.status < 300)
+            .flatMap(r => r.negotiatedMediaTypes || [])
+            .filter((mediaType, index, array) => array.indexOf(mediaType) === index);
+        return formats.length > 1 ? formats : undefined;
+    }
+
+    private getFormatTypeName(methodName: string): string {
+        return `${this.capitalize(methodName)}Format`;
+    }
+
     private buildDecorators(
         operation: Operation,
+        spec: OpenAPISpec,
         parameters: MethodParameter[],
-        responses: MethodResponse[]
+        responses: MethodResponse[],
+        bodyParam?: BodyParameter,
+        mediaBody?: MediaBody
     ): string[] {
         const decorators: string[] = [];
 
+        const operationOptions: string[] = [];
         if (operation.summary) {
-            decorators.push(`@ApiOperation({ summary: '${operation.summary}' })`);
+            operationOptions.push(`summary: '${operation.summary}'`);
+        }
+        if (operation.deprecated) {
+            operationOptions.push('deprecated: true');
+        }
+        if (operationOptions.length > 0) {
+            decorators.push(`@ApiOperation({ ${operationOptions.join(', ')} })`);
         }
 
         parameters
             .filter(p => p.decorator.includes('@Param'))
             .forEach(p => {
-                const cleanType = p.type.replace('?', '');
+                const cleanType = this.getNonNullType(p.type.replace('?', ''));
                 const typeClass = this.getTypeClass(cleanType);
                 decorators.push(`@ApiParam({ name: '${p.name}', type: ${typeClass} })`);
             });
@@ -337,54 +1101,109 @@ export class ControllerGenerator {
         parameters
             .filter(p => p.decorator.includes('@Query'))
             .forEach(p => {
-                const cleanType = p.type.replace('?', '');
-                const typeClass = this.getTypeClass(cleanType);
+                const cleanType = this.getNonNullType(p.type.replace('?', ''));
+                const isArray = cleanType.endsWith('[]');
+                const typeClass = this.getTypeClass(isArray ? cleanType.slice(0, -2) : cleanType);
                 const cleanName = p.name.replace('?', '');
                 const isRequired = p.required === true;
-                decorators.push(`@ApiQuery({ name: '${cleanName}', type: ${typeClass}, required: ${isRequired} })`);
+                const options = [`name: '${cleanName}'`, `type: ${typeClass}`, `required: ${isRequired}`];
+                if (isArray) {
+                    options.push('isArray: true');
+                }
+                if (p.style) {
+                    options.push(`style: '${p.style}'`, `explode: ${p.explode}`);
+                }
+                if (p.deprecated) {
+                    options.push('deprecated: true');
+                }
+                decorators.push(`@ApiQuery({ ${options.join(', ')} })`);
             });
 
         parameters
-            .filter(p => p.decorator.includes('@Headers'))
+            .filter(p => p.parameterType === 'header')
             .forEach(p => {
                 const cleanName = p.name.replace('?', '');
                 const isRequired = p.required === true;
                 // Extract the original header name from the decorator
-                const headerName = p.decorator.match(/@Headers\('([^']+)'\)/)?.[1] || cleanName;
+                const headerName = p.decorator.match(/@\w+\('([^']+)'/)?.[1] || cleanName;
 
-                // Build schema object for ApiHeader
-                const schemaProps: string[] = [];
-                if (p.schema) {
-                    if (p.schema.type) {
-                        schemaProps.push(`type: '${p.schema.type}'`);
-                    }
-                    if (p.schema.pattern) {
-                        schemaProps.push(`pattern: '${p.schema.pattern}'`);
-                    }
-                    if (p.schema.format) {
-                        schemaProps.push(`format: '${p.schema.format}'`);
+                const schemaProps = this.getParameterSchemaProps(p.schema);
+                const description = p.description || `${headerName} header parameter`;
+                const schemaStr = schemaProps.length > 0 ? `, schema: { ${schemaProps.join(', ')} }` : '';
+                const deprecatedStr = p.deprecated ? ', deprecated: true' : '';
+
+                decorators.push(`@ApiHeader({ name: '${headerName}', description: '${description}', required: ${isRequired}${schemaStr}${deprecatedStr} })`);
+            });
+
+        // Swagger has no cookie parameter decorator; cookies of API key schemes are documented as cookie auth
+        const schemes = spec.components?.securitySchemes || {};
+        const security = operation.security ?? spec.security ?? [];
+        parameters
+            .filter(p => p.cookieName)
+            .forEach(p => {
+                const schemeName = Object.keys(schemes).find(name => schemes[name].type === 'apiKey'
+                    && schemes[name].in === 'cookie' && schemes[name].name === p.cookieName);
+                if (schemeName) {
+                    // Security requirements of the operation document the scheme already
+                    if (!security.some(requirement => schemeName in requirement)) {
+                        this.swaggerImports.add('ApiCookieAuth');
+                        decorators.push(`@ApiCookieAuth('${schemeName}')`);
                     }
+                    return;
                 }
 
-                const description = p.description || `${headerName} header parameter`;
+                const schemaProps = this.getParameterSchemaProps(p.schema);
                 const schemaStr = schemaProps.length > 0 ? `, schema: { ${schemaProps.join(', ')} }` : '';
-
-                decorators.push(`@ApiHeader({ name: '${headerName}', description: '${description}', required: ${isRequired}${schemaStr} })`);
+                const descriptionStr = p.description ? `, description: '${p.description}'` : '';
+                const deprecatedStr = p.deprecated ? ', deprecated: true' : '';
+                this.usesCookieDocumentation = true;
+                decorators.push(`@ApiCookie({ name: '${p.cookieName}', required: ${p.required === true}${descriptionStr}${schemaStr}${deprecatedStr} })`);
             });
 
+        if (mediaBody) {
+            decorators.push(...mediaBody.decorators);
+        }
+
+        if (bodyParam?.unionKind) {
+            this.swaggerImports.add('ApiBody');
+            decorators.push(`@ApiBody({ schema: ${this.getUnionSwaggerSchema(bodyParam.type, bodyParam.unionKind)} })`);
+        }
+
         responses.forEach(r => {
-            if (r.type !== 'void' && r.type !== 'any' && r.status !== 204) {
+            const headers = r.headers ? `, headers: ${this.getSwaggerHeaders(r.headers)}` : '';
+            if (r.mediaTypes) {
+                const format = r.type === 'StreamableFile' ? `, format: 'binary'` : '';
+                decorators.push(`@ApiResponse({ status: ${r.status}, schema: { type: 'string'${format} }${headers} })`);
+            } else if (r.unionKind) {
+                decorators.push(`@ApiResponse({ status: ${r.status}, schema: ${this.getUnionSwaggerSchema(r.type, r.unionKind)}${headers} })`);
+            } else if (r.type !== 'void' && r.type !== 'any' && r.status !== 204) {
                 // Convert array types from UserDto[] to [UserDto] for Swagger
-                const swaggerType = r.type.endsWith('[]')
-                    ? `[${r.type.slice(0, -2)}]`
-                    : r.type;
-                const options = `{ status: ${r.status}, type: ${swaggerType} }`;
+                const responseType = this.getNonNullType(r.type);
+                const swaggerType = responseType.endsWith('[]')
+                    ? `[${responseType.slice(0, -2)}]`
+                    : responseType;
+                const options = `{ status: ${r.status}, type: ${swaggerType}${headers} }`;
                 decorators.push(`@ApiResponse(${options})`);
             } else {
-                decorators.push(`@ApiResponse({ status: ${r.status} })`);
+                decorators.push(`@ApiResponse({ status: ${r.status}${headers} })`);
             }
         });
 
+        const successResponses = responses.filter(r => r.status >= 200 && r.status < 300);
+        const producedMediaTypes = successResponses
+            .flatMap(r => r.mediaTypes || r.negotiatedMediaTypes || [])
+            .filter((mediaType, index, array) => array.indexOf(mediaType) === index);
+        if (producedMediaTypes.length > 0) {
+            this.swaggerImports.add('ApiProduces');
+            decorators.push(`@ApiProduces(${producedMediaTypes.map(mediaType => `'${mediaType}'`).join(', ')})`);
+            // With a single media type the response header can be fixed up front
+            const sendsJson = this.statusResults && responses.some(r => !r.mediaTypes && r.type !== 'void');
+            if (producedMediaTypes.length === 1 && successResponses.every(r => r.mediaTypes || r.type === 'void') && !sendsJson) {
+                this.commonImports.add('Header');
+                decorators.push(`@Header('Content-Type', '${producedMediaTypes[0]}')`);
+            }
+        }
+
         const successResponse = responses.find(r => r.status >= 200 && r.status < 300);
         if (successResponse && successResponse.status !== 200 && successResponse.status !== 201) {
             decorators.push(`@HttpCode(${successResponse.status})`);
@@ -395,11 +1214,23 @@ export class ControllerGenerator {
 
     private getParamType(schema: any): string {
         if (!schema) return 'string';
-        const type = schema.type || 'string';
-        return type === 'integer' ? 'number' : type;
+        const nonNullSchema = SchemaUtils.withoutNull(schema);
+        const schemaType = typeof nonNullSchema.type === 'string' ? nonNullSchema.type : 'string';
+        const type = schemaType === 'integer' ? 'number'
+            : schemaType === 'array' ? `${this.getParamType(nonNullSchema.items)}[]`
+                : schemaType;
+        return SchemaUtils.isNullable(schema) ? `${type} | null` : type;
+    }
+
+    private getNonNullType(type: string): string {
+        return type.replace(/ \| null$/, '');
     }
 
     private getSchemaType(schema: any, originalRef?: string, operationId?: string, status?: string): string {
+        if (SchemaUtils.isNullable(schema)) {
+            return SchemaUtils.withNullType(this.getSchemaType(SchemaUtils.withoutNull(schema), originalRef, operationId, status));
+        }
+
         // If we have the original reference, use that
         if (originalRef) {
             const refName = originalRef.split('/').pop();
@@ -416,6 +1247,10 @@ export class ControllerGenerator {
             return `${refName}Dto`;
         }
 
+        if (this.getUnionKind(schema)) {
+            return this.getUnionType(schema);
+        }
+
         if (schema.type === 'array') {
             // Handle array responses
             if (schema.items) {
@@ -452,6 +1287,9 @@ export class ControllerGenerator {
         }
 
         // Handle primitive types
+        if (schema.type === 'null') {
+            return 'null';
+        }
         if (schema.type === 'string') {
             return 'string';
         }
@@ -465,6 +1303,48 @@ export class ControllerGenerator {
         return 'any';
     }
 
+    private getUnionKind(schema: any): UnionKind | undefined {
+        return SchemaUtils.getUnionKind(schema);
+    }
+
+    private getUnionType(schema: any, originalSchema?: any): string {
+        return SchemaUtils.getUnionType(schema, originalSchema, (variant, originalRef) => this.getSchemaType(variant, originalRef));
+    }
+
+    private getUnionSwaggerSchema(unionType: string, unionKind: UnionKind): string {
+        const members = unionType.split(' | ');
+        const nonNullMembers = members.filter(type => type !== 'null');
+        const nullable = nonNullMembers.length < members.length ? ', nullable: true' : '';
+        const variants = nonNullMembers.map(type => this.getSwaggerSchema(type));
+
+        // OpenAPI 3.0 has no null type, so a union with null is documented as a nullable schema
+        if (variants.length === 1) {
+            return `{ allOf: [${variants[0]}]${nullable} }`;
+        }
+        return `{ ${unionKind}: [${variants.join(', ')}]${nullable} }`;
+    }
+
+    private getSwaggerSchema(type: string): string {
+        if (type.endsWith('[]')) {
+            return `{ type: 'array', items: ${this.getSwaggerSchema(type.slice(0, -2))} }`;
+        }
+        if (type === 'string' || type === 'number' || type === 'boolean') {
+            return `{ type: '${type}' }`;
+        }
+        // Only generated DTO classes can be referenced, anything else is documented by its JSON type
+        if (!this.isDtoType(type)) {
+            return type === 'any' ? '{}' : `{ type: 'object' }`;
+        }
+
+        this.swaggerImports.add('getSchemaPath');
+        this.extraModels.add(type);
+        return `{ $ref: getSchemaPath(${type}) }`;
+    }
+
+    private isDtoType(type: string): boolean {
+        return this.isDtoGenerationEnabled && /^\w+Dto$/.test(type);
+    }
+
     private generateInlineResponseDtoName(operationId: string, status?: string): string {
         // Convert operationId to PascalCase
         const pascalCaseOperationId = operationId.charAt(0).toUpperCase() + operationId.slice(1);
@@ -477,10 +1357,28 @@ export class ControllerGenerator {
         return `${pascalCaseOperationId}ResponseDto`;
     }
 
+    public getFormBodySchemas(): Map<string, any> {
+        return this.formBodySchemas;
+    }
+
     public getInlineResponseSchemas(): Map<string, any> {
         return this.inlineResponseSchemas;
     }
 
+    public getQueryParameterSchemas(): Map<string, any> {
+        return this.queryParameterSchemas;
+    }
+
+    /**
+     * Collects the query parameter and form body schemas without rendering a controller, so services
+     * generated on their own can still reference those DTOs.
+     */
+    public collectInputSchemas(paths: { [path: string]: PathItem }, spec: OpenAPISpec): void {
+        this.queryParameterSchemas.clear();
+        this.formBodySchemas.clear();
+        this.extractMethods(paths, spec);
+    }
+
     public clearInlineResponseSchemas(): void {
         this.inlineResponseSchemas.clear();
     }
@@ -515,6 +1413,14 @@ export class ControllerGenerator {
         return responseTypes.join(' | ');
     }
 
+    // Implementations may return a buffer or stream for file responses, the wrapper turns it into a StreamableFile
+    private getAbstractReturnType(method: ControllerMethod): string {
+        return this.getReturnType(method)
+            .split(' | ')
+            .map(type => type === 'StreamableFile' ? 'StreamableFile | Uint8Array | Readable' : type)
+            .join(' | ');
+    }
+
     private generateMethodName(httpMethod: string, path: string): string {
         const segments = path.split('/').filter(Boolean);
         const lastSegment = segments[segments.length - 1];
@@ -536,38 +1442,30 @@ export class ControllerGenerator {
         const dtos = new Set<string>();
         methods.forEach(m => {
             if (m.bodyParam) {
-                // Extract base type from array types
-                const baseType = m.bodyParam.type.replace(/\[\]$/, '');
-                if (baseType !== 'void' && baseType !== 'any') {
-                    dtos.add(baseType);
-                }
+                // Text and binary bodies are typed as string and Buffer
+                this.getUnionMemberTypes(m.bodyParam.type)
+                    .filter(type => type.endsWith('Dto'))
+                    .forEach(type => dtos.add(type));
             }
-            m.responses.forEach(r => {
-                if (r.type !== 'void' && r.type !== 'any') {
-                    // Extract base type from array types
-                    const baseType = r.type.replace(/\[\]$/, '');
-                    if (baseType !== 'void' && baseType !== 'any') {
-                        dtos.add(baseType);
-                    }
-                }
+            m.responses.filter(r => !r.mediaTypes).forEach(r => {
+                this.getUnionMemberTypes(r.type).filter(type => this.isDtoType(type)).forEach(type => dtos.add(type));
             });
         });
 
-        // Also extract types from union return types
+        // Also extract types from union return types, text and file responses need no DTO
         methods.forEach(m => {
-            const returnType = this.getReturnType(m);
-            if (returnType !== 'void' && returnType !== 'any') {
-                // Split union types and extract base types
-                const unionTypes = returnType.split(' | ');
-                unionTypes.forEach(type => {
-                    const baseType = type.trim().replace(/\[\]$/, '');
-                    if (baseType !== 'void' && baseType !== 'any') {
-                        dtos.add(baseType);
-                    }
-                });
-            }
+            const fileTypes = m.responses.filter(r => r.mediaTypes).map(r => r.type);
+            this.getUnionMemberTypes(this.getReturnType(m))
+                .filter(type => !fileTypes.includes(type) && this.isDtoType(type))
+                .forEach(type => dtos.add(type));
         });
 
+        this.queryParameterSchemas.forEach((schema, dtoName) => dtos.add(dtoName));
+        this.formBodySchemas.forEach((schema, dtoName) => dtos.add(dtoName));
+        methods.forEach(m => m.parameters
+            .filter(p => p.parameterType === 'query' && p.style)
+            .forEach(p => this.getUnionMemberTypes(p.type).filter(type => type.endsWith('Dto')).forEach(type => dtos.add(type))));
+
         // Extract DTOs referenced within inline response schemas
         this.inlineResponseSchemas.forEach((schema, dtoName) => {
             const referencedDtos = this.extractReferencedDtosFromSchema(schema);
@@ -577,6 +1475,14 @@ export class ControllerGenerator {
         return DtoImporter.resolveDtoImports(dtos, spec);
     }
 
+    private getUnionMemberTypes(type: string): string[] {
+        // Extract base types from array and union types
+        return type
+            .split(' | ')
+            .map(member => member.trim().replace(/\[\]$/, ''))
+            .filter(member => member !== 'void' && member !== 'any' && member !== 'null');
+    }
+
     private extractReferencedDtosFromSchema(schema: any): string[] {
         const dtos: string[] = [];
 
@@ -615,6 +1521,9 @@ export class ControllerGenerator {
     }
 
     private getTypeClass(type: string): string {
+        if (type.endsWith('[]')) {
+            return `[${this.getTypeClass(type.slice(0, -2))}]`;
+        }
         switch (type) {
             case 'string':
                 return 'String';
@@ -638,7 +1547,34 @@ export class ControllerGenerator {
         return path.replace(/\{([^}]+)\}/g, ':$1');
     }
 
-    private findOriginalSchemaRef(originalSpec: any, operationId: string, type: 'requestBody' | 'response', status?: string): string | undefined {
+    private findOriginalSchemaRef(
+        originalSpec: any,
+        operationId: string,
+        type: 'requestBody' | 'response',
+        status?: string,
+        mediaType: string = 'application/json'
+    ): string | undefined {
+        const schema = this.findOriginalSchema(originalSpec, operationId, type, status, mediaType);
+        if (!schema) return undefined;
+
+        if (schema.$ref) {
+            return schema.$ref;
+        }
+        if (type === 'response' && schema.type === 'array' && schema.items && schema.items.$ref) {
+            // Handle array responses
+            return schema.items.$ref;
+        }
+
+        return undefined;
+    }
+
+    private findOriginalSchema(
+        originalSpec: any,
+        operationId: string,
+        type: 'requestBody' | 'response',
+        status?: string,
+        mediaType: string = 'application/json'
+    ): any | undefined {
         if (!originalSpec || !originalSpec.paths) return undefined;
 
         // Find the operation in the original spec
@@ -647,21 +1583,9 @@ export class ControllerGenerator {
                 if (operation && typeof operation === 'object' && (operation as any).operationId === operationId) {
                     const op = operation as any;
                     if (type === 'requestBody' && op.requestBody) {
-                        const content = op.requestBody.content?.['application/json'];
-                        if (content && content.schema && content.schema.$ref) {
-                            return content.schema.$ref;
-                        }
+                        return op.requestBody.content?.[mediaType]?.schema;
                     } else if (type === 'response' && status && op.responses && op.responses[status]) {
-                        const response = op.responses[status];
-                        const content = response.content?.['application/json'];
-                        if (content && content.schema) {
-                            if (content.schema.$ref) {
-                                return content.schema.$ref;
-                            } else if (content.schema.type === 'array' && content.schema.items && content.schema.items.$ref) {
-                                // Handle array responses
-                                return content.schema.items.$ref;
-                            }
-                        }
+                        return op.responses[status].content?.[mediaType]?.schema;
                     }
                 }
             }
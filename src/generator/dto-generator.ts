@@ -1,35 +1,97 @@
 import {OpenAPISpec} from '../types/openapi';
 import {TemplateLoader} from '../utils/template-loader';
 import {DtoImporter} from '../utils/dto-importer';
+import {SchemaUtils} from '../utils/schema-utils';
+import {FormatRegistry} from '../utils/format-registry';
+import {logger} from '../utils/logger';
+import {FormatMapping, FormatValidator} from '../types/config';
 
 interface DtoProperty {
     name: string;
     type: string;
     required: boolean;
     description?: string;
+    deprecated?: boolean;
     decorators: string[];
+    initializer?: string;
+    reference?: string; // DTO class held by the property, when it is a single nested object
+}
+
+interface EnumMember {
+    key: string;
+    value: string; // TypeScript literal, e.g. 'active' or 2
+    description?: string;
+}
+
+interface EnumDefinition {
+    name: string;
+    values: EnumMember[];
 }
 
 interface DtoSchema {
     name: string;
     properties: DtoProperty[];
     imports: string[];
+    decorators?: string[];
+    abstract?: boolean;
+    extends?: string;
+    additionalProperties?: AdditionalProperties;
+}
+
+// Values of keys besides the declared properties, typed through an index signature
+interface AdditionalProperties {
+    type: string;
+    decorators: string[];
+}
+
+interface DiscriminatorSubType {
+    name: string;
+    dto: string;
+}
+
+interface TemplateImports {
+    swagger: Set<string>;
+    validator: Set<string>;
+    transformer: Set<string>;
+    modules: Map<string, Set<string>>; // Imports from any other module, keyed by module name
 }
 
 export class DtoGenerator {
     private templateLoader: TemplateLoader;
     private enumSchemaMap: Map<string, string>;
-    private createdEnumsMap: Map<string, string>; // Track enum values -> enum names created during generation
-
-    constructor(templateDir?: string) {
+    private templateImports: TemplateImports; // Track imports needed beyond the template's default import block
+    private formatRegistry: FormatRegistry;
+    private usesUnionValidation = false;
+    private usesUnionTransformation = false;
+    private usesRecordValidation = false;
+    private usesAdditionalPropertiesValidation = false;
+    private usesPropertyCountValidation = false;
+    private usesLazyReferences = false;
+    private writeModelSchemaNames = new Set<string>(); // Component schemas with a write model for request bodies
+
+    // class-validator names already imported by the default DTO template
+    private static readonly TEMPLATE_VALIDATOR_IMPORTS = [
+        'IsString', 'IsNumber', 'IsBoolean', 'IsArray', 'IsOptional',
+        'IsEmail', 'IsEnum', 'IsUUID', 'IsDateString',
+        'Min', 'Max', 'MinLength', 'MaxLength', 'Matches',
+        'ValidateNested', 'IsInt', 'IsDate', 'ArrayMaxSize', 'ArrayMinSize'
+    ];
+
+    constructor(
+        templateDir?: string,
+        formats?: { [format: string]: FormatMapping },
+        private enumStyle: 'enum' | 'const' = 'enum'
+    ) {
         this.templateLoader = new TemplateLoader(templateDir);
+        this.formatRegistry = new FormatRegistry(formats);
         this.enumSchemaMap = new Map<string, string>();
-        this.createdEnumsMap = new Map<string, string>();
+        this.templateImports = DtoGenerator.createTemplateImports();
     }
 
     async generateAllDtosSplit(
         spec: OpenAPISpec,
-        inlineResponseSchemas?: Map<string, any>
+        inlineResponseSchemas?: Map<string, any>,
+        querySchemas?: Map<string, any>
     ): Promise<{
         sharedDtoContent?: string,
         resourceDtoContent?: string
@@ -51,9 +113,10 @@ export class DtoGenerator {
         // generate DTOs for resource schemas
         if (
             Object.keys(resourceSchemas).length > 0 ||
-            (inlineResponseSchemas && inlineResponseSchemas.size > 0)
+            (inlineResponseSchemas && inlineResponseSchemas.size > 0) ||
+            (querySchemas && querySchemas.size > 0)
         ) {
-            resourceDtoContent = await this.generateDtos(resourceSchemas, inlineResponseSchemas, spec);
+            resourceDtoContent = await this.generateDtos(resourceSchemas, inlineResponseSchemas, spec, querySchemas);
         }
 
         return { sharedDtoContent, resourceDtoContent };
@@ -62,8 +125,7 @@ export class DtoGenerator {
     async generateDto(dtoName: string, schema: any, spec: OpenAPISpec): Promise<string> {
         const template = await this.templateLoader.loadTemplate('dto');
 
-        // Reset created enums map for this generation
-        this.createdEnumsMap.clear();
+        this.resetTemplateImports();
 
         const mainDtoSchema = this.processSchema(dtoName, schema, spec, this.enumSchemaMap);
 
@@ -71,17 +133,11 @@ export class DtoGenerator {
         const allDtos = this.collectAndOrderAllDtos(mainDtoSchema, spec);
 
         // Collect enums from all schemas
-        const allEnums = new Set<{ name: string, values: Array<{ key: string, value: string }> }>();
-        const enumNames = new Set<string>();
+        const allEnums: EnumDefinition[] = [];
 
         // Collect enums from the main schema
         const mainEnums = this.collectEnumsForTemplate(schema, spec, this.enumSchemaMap, new Set(), dtoName);
-        mainEnums.forEach(enumDef => {
-            if (!enumNames.has(enumDef.name)) {
-                enumNames.add(enumDef.name);
-                allEnums.add(enumDef);
-            }
-        });
+        mainEnums.forEach(enumDef => this.addEnumDefinition(enumDef, allEnums));
 
         // Collect enums from referenced schemas
         for (const dto of allDtos) {
@@ -90,23 +146,20 @@ export class DtoGenerator {
                 const refSchema = spec.components?.schemas?.[refSchemaName];
                 if (refSchema) {
                     const refEnums = this.collectEnumsForTemplate(refSchema, spec, this.enumSchemaMap, new Set(), dto.name);
-                    refEnums.forEach(enumDef => {
-                        if (!enumNames.has(enumDef.name)) {
-                            enumNames.add(enumDef.name);
-                            allEnums.add(enumDef);
-                        }
-                    });
+                    refEnums.forEach(enumDef => this.addEnumDefinition(enumDef, allEnums));
                 }
             }
         }
 
         return template({
             schemas: allDtos,
-            enums: Array.from(allEnums)
+            enums: allEnums,
+            constEnums: this.enumStyle === 'const',
+            ...this.getTemplateImportContext()
         });
     }
 
-    private async generateDtos(schemas: { [key: string]: any }, inlineSchemas?: Map<string, any>, spec?: OpenAPISpec): Promise<string> {
+    private async generateDtos(schemas: { [key: string]: any }, inlineSchemas?: Map<string, any>, spec?: OpenAPISpec, querySchemas?: Map<string, any>): Promise<string> {
         // If no spec provided, create a minimal one
         if (!spec) {
             spec = { openapi: '3.1.0', info: { title: 'Generated', version: '1.0.0' }, paths: {} };
@@ -117,15 +170,18 @@ export class DtoGenerator {
         const allDtos = new Map<string, DtoSchema>();
         const dependencies = new Map<string, Set<string>>();
         const nestedDtoSchemas = new Map<string, any>();
-        const allEnums: Array<{ name: string, values: Array<{ key: string, value: string }> }> = [];
-        const enumNames = new Set<string>();
+        const allEnums: EnumDefinition[] = [];
 
-        // Reset created enums map for each generation pass
-        this.createdEnumsMap.clear();
+        this.resetTemplateImports();
+
+        const requestBodySchemaNames = this.findRequestBodySchemaNames(spec);
+        this.writeModelSchemaNames = new Set(Array.from(requestBodySchemaNames).filter(schemaName =>
+            SchemaUtils.hasAccessModeProperties(spec!.components?.schemas?.[schemaName], spec!.components?.schemas)));
 
         // First pass: generate all component DTOs
         for (let [schemaName, schema] of Object.entries(schemas)) {
             const dtoName = `${schemaName}Dto`;
+            const hasAccessModes = SchemaUtils.hasAccessModeProperties(schema, spec.components?.schemas);
             this.processAndCollectDto(
                 dtoName,
                 schema,
@@ -134,10 +190,26 @@ export class DtoGenerator {
                 dependencies,
                 nestedDtoSchemas,
                 allEnums,
-                enumNames,
                 this.enumSchemaMap,
-                true
+                true,
+                hasAccessModes ? 'writeOnly' : undefined
             );
+
+            // Schemas used in request bodies also get a write model without readOnly properties
+            if (this.writeModelSchemaNames.has(schemaName)) {
+                this.processAndCollectDto(
+                    DtoImporter.getRequestDtoName(schemaName),
+                    schema,
+                    spec,
+                    allDtos,
+                    dependencies,
+                    nestedDtoSchemas,
+                    allEnums,
+                    this.enumSchemaMap,
+                    true,
+                    'readOnly'
+                );
+            }
         }
 
         // Second pass: generate inline response DTOs
@@ -152,7 +224,6 @@ export class DtoGenerator {
                         dependencies,
                         nestedDtoSchemas,
                         allEnums,
-                        enumNames,
                         this.enumSchemaMap,
                         true
                     );
@@ -160,6 +231,33 @@ export class DtoGenerator {
             }
         }
 
+        // Query parameter and form body DTOs: values arrive as strings, so they are converted before validation
+        const queryNestedDtoNames: string[] = [];
+        if (querySchemas) {
+            for (const [dtoName, querySchema] of querySchemas.entries()) {
+                if (!allDtos.has(dtoName)) {
+                    const { schema, keys } = DtoGenerator.withPropertyNames(querySchema);
+                    const knownNestedDtoNames = new Set(nestedDtoSchemas.keys());
+                    this.processAndCollectDto(
+                        dtoName,
+                        schema,
+                        spec,
+                        allDtos,
+                        dependencies,
+                        nestedDtoSchemas,
+                        allEnums,
+                        this.enumSchemaMap,
+                        true,
+                        'readOnly'
+                    );
+                    this.addQueryCoercion(allDtos.get(dtoName)!, schema);
+                    this.exposeKeys(allDtos.get(dtoName)!, keys);
+                    // deepObject parameters nest inline objects, whose values are strings as well
+                    queryNestedDtoNames.push(...Array.from(nestedDtoSchemas.keys()).filter(name => !knownNestedDtoNames.has(name)));
+                }
+            }
+        }
+
         // Third pass: generate nested DTOs
         for (const [nestedDtoName, nestedSchema] of nestedDtoSchemas.entries()) {
             if (!allDtos.has(nestedDtoName)) {
@@ -171,18 +269,28 @@ export class DtoGenerator {
                     dependencies,
                     nestedDtoSchemas,
                     allEnums,
-                    enumNames,
                     this.enumSchemaMap,
                     false
                 );
             }
         }
+        for (const nestedDtoName of queryNestedDtoNames) {
+            this.addQueryCoercion(allDtos.get(nestedDtoName)!, nestedDtoSchemas.get(nestedDtoName));
+        }
+        // Component schemas sent as query objects receive their values as strings too
+        for (const schemaName of this.findQueryObjectSchemaNames(spec)) {
+            const dtoSchema = allDtos.get(`${schemaName}Dto`);
+            if (dtoSchema) {
+                this.addQueryCoercion(dtoSchema, SchemaUtils.withoutNull(spec.components!.schemas![schemaName]));
+            }
+        }
 
         // Topological sort to resolve dependency order
         const sorted = this.topologicalSort(dependencies);
 
         // Return DTOs in dependency order
         const orderedDtos = sorted.map(dtoName => allDtos.get(dtoName)).filter(Boolean) as DtoSchema[];
+        this.markForwardReferences(orderedDtos);
         
         // Collect all used DTOs for import statements
         const usedDtos = new Set<string>();
@@ -196,7 +304,9 @@ export class DtoGenerator {
         return template({
             schemas: orderedDtos,
             enums: allEnums,
+            constEnums: this.enumStyle === 'const',
             dtoImports: DtoImporter.generateImportStatements([], sharedDtosUsed, ''),
+            ...this.getTemplateImportContext()
         });
     }
 
@@ -206,14 +316,14 @@ export class DtoGenerator {
         const resolvedSpec = spec;
         
         // First, collect enum schemas from the resolved spec (which has all refs resolved)
-        const resolvedEnumSchemas = new Map<string, { name: string, enum: string[] }>();
+        const resolvedEnumSchemas = new Map<string, { name: string, enum: any[] }>();
         
         if (resolvedSpec?.components?.schemas) {
             for (const [schemaName, schemaDefinition] of Object.entries(resolvedSpec.components.schemas)) {
-                const schemaDef = schemaDefinition as any;
+                const schemaDef = SchemaUtils.withoutNull(schemaDefinition);
                 // Check if this is an enum schema in the resolved spec
-                if (schemaDef.type === 'string' && schemaDef.enum && Array.isArray(schemaDef.enum)) {
-                    const enumKey = JSON.stringify(schemaDef.enum.sort());
+                if (DtoGenerator.isEnumSchema(schemaDef)) {
+                    const enumKey = DtoGenerator.getEnumValuesKey(schemaDef.enum);
                     resolvedEnumSchemas.set(enumKey, { name: schemaName, enum: schemaDef.enum });
                 }
             }
@@ -222,11 +332,11 @@ export class DtoGenerator {
         // Now match them back to original spec schema names
         if (originalSpec?.components?.schemas) {
             for (const [originalSchemaName, schemaDefinition] of Object.entries(originalSpec.components.schemas)) {
-                const schemaDef = schemaDefinition as any;
+                const schemaDef = SchemaUtils.withoutNull(schemaDefinition);
                 
                 // If it's a direct enum schema (not a $ref), use it directly
-                if (schemaDef.type === 'string' && schemaDef.enum && Array.isArray(schemaDef.enum)) {
-                    const enumKey = JSON.stringify(schemaDef.enum.sort());
+                if (DtoGenerator.isEnumSchema(schemaDef)) {
+                    const enumKey = DtoGenerator.getEnumValuesKey(schemaDef.enum);
                     if (!enumMap.has(enumKey)) {
                         enumMap.set(enumKey, originalSchemaName);
                     }
@@ -240,8 +350,8 @@ export class DtoGenerator {
                         const refSchemaName = refMatch[1];
                         // Check if this ref points to an enum in the resolved spec
                         const resolvedSchema = resolvedSpec.components?.schemas?.[refSchemaName];
-                        if (resolvedSchema && resolvedSchema.type === 'string' && resolvedSchema.enum) {
-                            const enumKey = JSON.stringify(resolvedSchema.enum.sort());
+                        if (DtoGenerator.isEnumSchema(SchemaUtils.withoutNull(resolvedSchema))) {
+                            const enumKey = DtoGenerator.getEnumValuesKey(SchemaUtils.withoutNull(resolvedSchema).enum);
                             // Use the original schema name (the one that has the $ref)
                             if (!enumMap.has(enumKey)) {
                                 enumMap.set(enumKey, originalSchemaName);
@@ -266,6 +376,7 @@ export class DtoGenerator {
     private processSchema(dtoName: string, schema: any, spec: OpenAPISpec, enumSchemaMap: Map<string, string>): DtoSchema {
         const properties: DtoProperty[] = [];
         const imports = new Set<string>();
+        const extraModels = new Set<string>();
         const required = schema.required || [];
 
         if (schema.properties) {
@@ -277,23 +388,83 @@ export class DtoGenerator {
                     spec,
                     imports,
                     enumSchemaMap,
-                    dtoName
+                    dtoName,
+                    extraModels
                 );
                 properties.push(property);
             }
         }
 
+        const decorators: string[] = [];
+        if (extraModels.size > 0) {
+            // Union members are only referenced through getSchemaPath, so Swagger needs them registered explicitly
+            this.templateImports.swagger.add('ApiExtraModels');
+            decorators.push(`@ApiExtraModels(${Array.from(extraModels).join(', ')})`);
+        }
+
         return {
             name: dtoName,
             properties,
-            imports: Array.from(imports)
+            imports: Array.from(imports),
+            decorators,
+            additionalProperties: this.getAdditionalProperties(dtoName, schema, properties, spec, imports, enumSchemaMap)
         };
     }
 
-    private processProperty(name: string, schema: any, isRequired: boolean, spec: OpenAPISpec, imports: Set<string>, enumSchemaMap: Map<string, string>, currentDtoName?: string): DtoProperty {
+    /**
+     * Types the values of undeclared keys of an object schema with additionalProperties, including
+     * component schemas that are maps themselves, and validates them unless they may be anything.
+     */
+    private getAdditionalProperties(
+        dtoName: string,
+        schema: any,
+        properties: DtoProperty[],
+        spec: OpenAPISpec,
+        imports: Set<string>,
+        enumSchemaMap: Map<string, string>
+    ): AdditionalProperties | undefined {
+        if (schema.additionalProperties !== true
+            && (typeof schema.additionalProperties !== 'object' || schema.additionalProperties === null)) {
+            return undefined;
+        }
+
+        const value = this.getMapValue('', schema, spec, imports, enumSchemaMap, dtoName);
+        // The index signature has to admit the declared properties as well, including unset optional ones
+        const types = [value.type, ...properties.map(property => property.type)]
+            .flatMap(type => type.split(' | '))
+            .filter((type, index, array) => array.indexOf(type) === index);
+        if (value.branch || properties.some(property => !property.required)) {
+            types.push('undefined');
+        }
+        const decorators: string[] = [];
+        if (value.branch) {
+            const knownKeys = Object.keys(schema.properties || {}).map(key => `'${key.replace(/'/g, "\\'")}'`);
+            decorators.push(`@ValidateAdditionalProperties([${knownKeys.join(', ')}], () => ${value.branch})`);
+            this.useAdditionalPropertiesValidation();
+        }
+        return { type: types.includes('any') ? 'any' : types.join(' | '), decorators };
+    }
+
+    private processProperty(name: string, schema: any, isRequired: boolean, spec: OpenAPISpec, imports: Set<string>, enumSchemaMap: Map<string, string>, currentDtoName?: string, extraModels?: Set<string>): DtoProperty {
         const decorators: string[] = [];
+        let isNullable = SchemaUtils.isNullable(schema);
+        schema = SchemaUtils.withoutNull(schema);
         let type = this.getTypeScriptType(schema, spec, imports, enumSchemaMap, currentDtoName, name);
         let arrayItemType: string | undefined; // Store the resolved array item type
+        const unionSchema = DtoGenerator.getUnionSchema(schema) || DtoGenerator.getUnionSchema(schema.items);
+        let unionVariants = unionSchema
+            ? this.getUnionVariants(unionSchema, spec, imports, enumSchemaMap, currentDtoName)
+            : undefined;
+
+        // A union with a null branch (OpenAPI 3.1 style) is a nullable value of the remaining branches
+        if (unionVariants && unionSchema === schema && unionVariants.some(variant => variant.type === 'null')) {
+            isNullable = true;
+            unionVariants = unionVariants.filter(variant => variant.type !== 'null');
+            type = Array.from(new Set(unionVariants.map(variant => variant.type))).join(' | ');
+        }
+        const singleDtoVariant = unionVariants?.length === 1 && unionVariants[0].isDto && !unionSchema?.discriminator
+            ? unionVariants[0].type
+            : undefined;
 
         // Handle nested objects with properties
         if (schema.type === 'object' && schema.properties && !schema.$ref) {
@@ -303,138 +474,85 @@ export class DtoGenerator {
                 type = matchingDtoName;
                 imports.add(matchingDtoName);
             } else {
-                // For inline response DTOs, keep nested inline objects as 'any' to avoid complexity
-                if (currentDtoName && currentDtoName.includes('ResponseDto')) {
-                    type = 'any';
-                } else {
-                    // Create inline DTO type: ParentTypeFieldDto
-                    const parentTypeName = currentDtoName?.replace(/Dto$/, '') || 'Unknown';
-                    const fieldName = name.charAt(0).toUpperCase() + name.slice(1);
-                    const inlineDtoName = `${parentTypeName}${fieldName}Dto`;
-                    type = inlineDtoName;
-                    imports.add(inlineDtoName);
-                }
+                // Create inline DTO type: ParentTypeFieldDto
+                const parentTypeName = currentDtoName?.replace(/Dto$/, '') || 'Unknown';
+                const fieldName = name.charAt(0).toUpperCase() + name.slice(1);
+                const inlineDtoName = `${parentTypeName}${fieldName}Dto`;
+                type = inlineDtoName;
+                imports.add(inlineDtoName);
             }
         }
 
+        // Handle maps declared through additionalProperties
+        const mapValue = DtoGenerator.isMapSchema(schema)
+            ? this.getMapValue(name, schema, spec, imports, enumSchemaMap, currentDtoName)
+            : undefined;
+        if (mapValue) {
+            type = `Record<string, ${mapValue.type}>`;
+        }
+
         // Add validation decorators
         if (!isRequired) {
             decorators.push('@IsOptional()');
+        } else if (isNullable) {
+            // Required nullable properties must be present, but skip the remaining validators for null
+            this.templateImports.validator.add('ValidateIf');
+            decorators.push('@ValidateIf((_, value) => value !== null)');
         }
 
         // Type-specific decorators
-        if (schema.type === 'string') {
-            decorators.push('@IsString()');
-
-            if (schema.format === 'email') {
-                decorators.push('@IsEmail()');
-            }
-
-            if (schema.format === 'uuid') {
-                decorators.push('@IsUUID()');
-            }
-
-            if (schema.format === 'date') {
-                decorators.push('@IsDate()');
+        if (unionSchema && unionVariants) {
+            // Polymorphic values are validated against each branch by the generated ValidateUnion helper
+            const branches = unionVariants.map(variant => variant.branch).join(', ');
+            const eachOption = schema.type === 'array' ? '{ each: true }' : '';
+            if (schema.type === 'array') {
+                decorators.push(...this.getArrayValidators(schema));
             }
-
-            if (schema.format === 'date-time') {
-                decorators.push('@IsDateString()');
-            }
-
-            if (schema.enum) {
-                // Check if this enum matches an existing enum schema from original spec
-                const enumKey = JSON.stringify(schema.enum.sort());
-                let enumName: string;
-                
-                if (enumSchemaMap.has(enumKey)) {
-                    enumName = enumSchemaMap.get(enumKey)!;
-                } else if (this.createdEnumsMap.has(enumKey)) {
-                    // Reuse an enum that was already created during this generation pass
-                    enumName = this.createdEnumsMap.get(enumKey)!;
-                } else {
-                    // Create a new enum name
-                    // First, check if this schema extends another via allOf that has the same enum
-                    let preferredSchemaName = currentDtoName;
-                    if (currentDtoName) {
-                        const originalSpec = (spec as any)._originalSpec;
-                        const schemaName = currentDtoName.replace(/Dto$/, '');
-                        const currentSchema = originalSpec?.components?.schemas?.[schemaName];
-                        
-                        // Check if this schema extends another via allOf
-                        if (currentSchema?.allOf) {
-                            for (const allOfItem of currentSchema.allOf) {
-                                if (allOfItem.$ref) {
-                                    const refName = allOfItem.$ref.split('/').pop();
-                                    // Check resolved spec for the base schema (which has properties resolved)
-                                    const baseSchema = spec.components?.schemas?.[refName];
-                                    
-                                    // Check if base schema has the same enum property
-                                    if (baseSchema?.properties?.[name]?.enum) {
-                                        const baseEnumKey = JSON.stringify(baseSchema.properties[name].enum.sort());
-                                        if (baseEnumKey === enumKey) {
-                                            // Use base schema name instead
-                                            preferredSchemaName = `${refName}Dto`;
-                                            break;
-                                        }
-                                    }
-                                }
-                            }
-                        }
-                    }
-                    
-                    if (preferredSchemaName) {
-                        const parentBase = preferredSchemaName.replace(/Dto$/, '');
-                        enumName = `${parentBase}${this.getEnumName(name, schema.enum)}`;
-                    } else {
-                        // Fallback: include enum values in name
-                        const enumValuesStr = schema.enum.map((v: string) => v.charAt(0).toUpperCase() + v.slice(1)).join('');
-                        enumName = `${this.getEnumName(name, schema.enum)}${enumValuesStr}`;
-                    }
-                    
-                    // Track this enum for reuse
-                    this.createdEnumsMap.set(enumKey, enumName);
+            if (singleDtoVariant) {
+                decorators.push(`@ValidateNested(${eachOption})`);
+                decorators.push(`@Type(() => ${singleDtoVariant})`);
+            } else if (unionSchema.discriminator) {
+                // Discriminated unions are resolved to a concrete class by class-transformer and validated as such
+                decorators.push(`@ValidateNested(${eachOption})`);
+                decorators.push(this.buildTypeDecorator('Object', unionSchema, spec, imports));
+            } else {
+                const options = eachOption ? `, ${eachOption}` : '';
+                decorators.push(`@ValidateUnion('${DtoGenerator.getUnionKind(unionSchema)}', () => [${branches}]${options})`);
+                this.useUnionValidation();
+                // Without a discriminator, objects are converted to the first DTO branch they match
+                if (unionVariants.some(variant => variant.isDto)) {
+                    decorators.push(`@TransformUnion(() => [${branches}]${options})`);
+                    this.useUnionTransformation();
                 }
-                decorators.push(`@IsEnum(${enumName})`);
             }
+        } else if (schema.type === 'string') {
+            decorators.push(...this.getStringTypeValidators(schema));
 
-            if (schema.minLength !== undefined) {
-                decorators.push(`@MinLength(${schema.minLength})`);
-            }
-
-            if (schema.maxLength !== undefined) {
-                decorators.push(`@MaxLength(${schema.maxLength})`);
+            if (schema.enum) {
+                decorators.push(`@IsEnum(${this.resolveEnumName(name, schema, spec, enumSchemaMap, currentDtoName)})`);
             }
 
-            if (schema.pattern) {
-                decorators.push(`@Matches(/${schema.pattern}/)`);
-            }
+            decorators.push(...this.getStringLengthValidators(schema));
         } else if (schema.type === 'number' || schema.type === 'integer') {
             if (schema.type === 'integer') {
                 decorators.push('@IsInt()');
             } else {
                 decorators.push('@IsNumber()');
             }
-
-            if (schema.minimum !== undefined) {
-                decorators.push(`@Min(${schema.minimum})`);
-            }
-
-            if (schema.maximum !== undefined) {
-                decorators.push(`@Max(${schema.maximum})`);
+            if (schema.enum) {
+                decorators.push(`@IsEnum(${this.resolveEnumName(name, schema, spec, enumSchemaMap, currentDtoName)})`);
             }
+            decorators.push(...this.getNumericValidators(schema));
         } else if (schema.type === 'boolean') {
             decorators.push('@IsBoolean()');
+        } else if (!schema.type && DtoGenerator.isEnumSchema(schema)) {
+            // Mixed string and number enums carry no type of their own
+            decorators.push(`@IsEnum(${this.resolveEnumName(name, schema, spec, enumSchemaMap, currentDtoName)})`);
         } else if (schema.type === 'array') {
-            decorators.push('@IsArray()');
-            if (schema.minItems !== undefined) {
-                decorators.push(`@ArrayMinSize(${schema.minItems})`);
-            }
-            if (schema.maxItems !== undefined) {
-                decorators.push(`@ArrayMaxSize(${schema.maxItems})`);
-            }
+            decorators.push(...this.getArrayValidators(schema));
+            decorators.push(...this.getArrayItemValidators(schema.items));
             if (schema.items) {
-                let itemType = this.getTypeScriptType(schema.items, spec, imports, enumSchemaMap, currentDtoName);
+                let itemType = this.getTypeScriptType(schema.items, spec, imports, enumSchemaMap, currentDtoName, name);
 
                 // Check if array items match an existing DTO
                 if (schema.items.type === 'object' && schema.items.properties && !schema.items.$ref) {
@@ -443,17 +561,12 @@ export class DtoGenerator {
                         itemType = matchingDtoName;
                         imports.add(matchingDtoName);
                     } else {
-                        // For inline response DTOs, keep array items as 'any' to avoid complexity
-                        if (currentDtoName && currentDtoName.includes('ResponseDto')) {
-                            itemType = 'any';
-                        } else {
-                            // Create inline DTO type for array items: ParentTypeFieldItemDto
-                            const parentTypeName = currentDtoName?.replace(/Dto$/, '') || 'Unknown';
-                            const fieldName = name.charAt(0).toUpperCase() + name.slice(1);
-                            const inlineDtoName = `${parentTypeName}${fieldName}ItemDto`;
-                            itemType = inlineDtoName;
-                            imports.add(inlineDtoName);
-                        }
+                        // Create inline DTO type for array items: ParentTypeFieldItemDto
+                        const parentTypeName = currentDtoName?.replace(/Dto$/, '') || 'Unknown';
+                        const fieldName = name.charAt(0).toUpperCase() + name.slice(1);
+                        const inlineDtoName = `${parentTypeName}${fieldName}ItemDto`;
+                        itemType = inlineDtoName;
+                        imports.add(inlineDtoName);
                     }
 
                     // Update the main type to use the correct array type
@@ -474,18 +587,35 @@ export class DtoGenerator {
                 if (schema.items.$ref || (schema.items.type === 'object' && schema.items.properties)) {
                     decorators.push('@ValidateNested({ each: true })');
                     const typeReference = (schema.items.$ref && itemType !== 'any') || itemType.endsWith('Dto') ? itemType : 'Object';
-                    decorators.push(`@Type(() => ${typeReference})`);
+                    decorators.push(this.buildTypeDecorator(typeReference, schema.items, spec, imports));
                 }
             }
         } else if (schema.$ref) {
             decorators.push('@ValidateNested()');
             const typeReference = type !== 'any' ? type : 'Object';
-            decorators.push(`@Type(() => ${typeReference})`);
+            decorators.push(this.buildTypeDecorator(typeReference, schema, spec, imports));
         } else if (schema.type === 'object' && schema.properties) {
             decorators.push('@ValidateNested()');
             // Use the proper DTO type if we determined it should be one
             const typeReference = type.endsWith('Dto') ? type : 'Object';
-            decorators.push(`@Type(() => ${typeReference})`);
+            decorators.push(this.buildTypeDecorator(typeReference, schema, spec, imports));
+        } else if (mapValue) {
+            this.templateImports.validator.add('IsObject');
+            decorators.push('@IsObject()');
+            if (mapValue.branch) {
+                decorators.push(`@ValidateRecord(() => ${mapValue.branch})`);
+                this.useRecordValidation();
+            }
+        }
+
+        if (schema.type === 'object' && (schema.minProperties !== undefined || schema.maxProperties !== undefined)) {
+            decorators.push(`@ValidatePropertyCount(${schema.minProperties ?? 'undefined'}, ${schema.maxProperties ?? 'undefined'})`);
+            this.usePropertyCountValidation();
+        }
+
+        if (DtoGenerator.hasLiteralConst(schema)) {
+            this.templateImports.validator.add('Equals');
+            decorators.push(`@Equals(${DtoGenerator.toTypeScriptLiteral(schema.const)})`);
         }
 
         // Add ApiProperty decorator
@@ -506,18 +636,77 @@ export class DtoGenerator {
             apiPropertyOptions.push('required: false');
         }
 
+        if (isNullable) {
+            apiPropertyOptions.push('nullable: true');
+        }
+
+        if (schema.readOnly === true) {
+            apiPropertyOptions.push('readOnly: true');
+        }
+
+        if (schema.deprecated === true) {
+            apiPropertyOptions.push('deprecated: true');
+        }
+
+        if (schema.default !== undefined) {
+            apiPropertyOptions.push(`default: ${DtoGenerator.toTypeScriptLiteral(schema.default)}`);
+        }
+
         if (schema.enum) {
-            const enumArray = schema.enum.map((value: string) => `'${value}'`).join(', ');
+            const enumArray = schema.enum.map((value: any) => DtoGenerator.toTypeScriptLiteral(value)).join(', ');
             apiPropertyOptions.push(`enum: [${enumArray}]`);
+        } else if (DtoGenerator.hasLiteralConst(schema)) {
+            apiPropertyOptions.push(`enum: [${DtoGenerator.toTypeScriptLiteral(schema.const)}]`);
         }
 
-        if (schema.type === 'array') {
+        apiPropertyOptions.push(...DtoGenerator.getApiPropertyConstraints(schema));
+
+        if (mapValue) {
+            apiPropertyOptions.push(`type: 'object', additionalProperties: ${mapValue.apiSchema}`);
+            if (mapValue.isDto) {
+                this.templateImports.swagger.add('getSchemaPath');
+                extraModels?.add(mapValue.type);
+            }
+        } else if (singleDtoVariant) {
+            apiPropertyOptions.push(`type: () => ${singleDtoVariant}`);
+            if (schema.type === 'array') {
+                apiPropertyOptions.push('isArray: true');
+            }
+        } else if (unionSchema && unionVariants) {
+            const unionKind = DtoGenerator.getUnionKind(unionSchema);
+            let schemaList = `${unionKind}: [${unionVariants.map(variant => variant.apiSchema).join(', ')}]`;
+            if (unionSchema.discriminator) {
+                const mapping = this.getDiscriminatorSubTypes('', unionSchema, spec)
+                    .map(subType => `'${subType.name}': getSchemaPath(${subType.dto})`)
+                    .join(', ');
+                schemaList += `, discriminator: { propertyName: '${unionSchema.discriminator.propertyName}', mapping: { ${mapping} } }`;
+            }
+            if (schema.type === 'array') {
+                apiPropertyOptions.push(`type: 'array', items: { ${schemaList} }`);
+            } else {
+                apiPropertyOptions.push(schemaList);
+            }
+            unionVariants
+                .filter(variant => variant.isDto)
+                .forEach(variant => extraModels?.add(variant.type));
+            if (unionVariants.some(variant => variant.isDto)) {
+                this.templateImports.swagger.add('getSchemaPath');
+            }
+        } else if (schema.type === 'array' && DtoGenerator.getApiPropertyItems(schema.items)) {
+            // Swagger replaces the items of isArray properties, so constrained items are described in full
+            apiPropertyOptions.push(`type: 'array', items: ${DtoGenerator.getApiPropertyItems(schema.items)}`);
+        } else if (schema.type === 'array') {
             apiPropertyOptions.push('isArray: true');
             if (schema.items && arrayItemType) {
                 // Use the resolved itemType instead of recalculating
                 const apiPropertyType = this.getApiPropertyType(arrayItemType);
-                apiPropertyOptions.push(`type: () => ${apiPropertyType}`);
+                apiPropertyOptions.push(DtoGenerator.isEnumSchema(SchemaUtils.withoutNull(schema.items))
+                    ? `enum: ${apiPropertyType}`
+                    : `type: () => ${apiPropertyType}`);
             }
+        } else if (DtoGenerator.isDtoReference(type)) {
+            // Referenced lazily so recursive and forward-declared DTOs resolve at runtime
+            apiPropertyOptions.push(`type: () => ${type}`);
         }
 
         const apiPropertyContent = apiPropertyOptions.length > 0
@@ -526,54 +715,361 @@ export class DtoGenerator {
 
         decorators.push(`@ApiProperty(${apiPropertyContent})`);
 
+        const reference = DtoGenerator.isDtoReference(type) ? type : undefined;
+        if (isNullable && type !== 'any') {
+            type = `${type} | null`;
+        }
+
         return {
             name: isRequired ? name : `${name}?`,
             type: type,
             required: isRequired,
             description: schema.description,
-            decorators
+            deprecated: schema.deprecated === true,
+            decorators,
+            initializer: this.getDefaultInitializer(schema, type, arrayItemType),
+            reference
+        };
+    }
+
+    /**
+     * Builds the property initializer for a schema default, so transformed request
+     * objects are populated when the client omits the property.
+     */
+    private getDefaultInitializer(schema: any, type: string, arrayItemType?: string): string | undefined {
+        const value = schema.default;
+        if (value === undefined) {
+            return undefined;
+        }
+        if (value === null) {
+            return type.endsWith(' | null') ? 'null' : undefined;
+        }
+
+        const baseType = type.replace(/ \| null$/, '');
+        if (schema.enum && DtoGenerator.isEnumReference(baseType)) {
+            return `${baseType}.${DtoGenerator.getEnumMemberKey(schema, value)}`;
+        }
+        if (schema.items?.enum && Array.isArray(value) && arrayItemType && DtoGenerator.isEnumReference(arrayItemType)) {
+            return `[${value.map((item: any) => `${arrayItemType}.${DtoGenerator.getEnumMemberKey(schema.items, item)}`).join(', ')}]`;
+        }
+        // Nested DTOs are class instances and cannot be initialized from a literal
+        if (/Dto(\[\])?$/.test(baseType)) {
+            return undefined;
+        }
+        return DtoGenerator.toTypeScriptLiteral(value);
+    }
+
+    private getStringTypeValidators(schema: any, each: boolean = false): string[] {
+        const formatMapping = this.formatRegistry.get(schema.format);
+        // Formats mapped to a non-string type are validated by their own validators only
+        const validators = !formatMapping?.type || formatMapping.type === 'string'
+            ? [each ? '@IsString({ each: true })' : '@IsString()']
+            : [];
+
+        for (const validator of formatMapping?.validators || []) {
+            this.addFormatValidatorImport(validator);
+            validators.push(FormatRegistry.renderValidator(validator, each));
+        }
+
+        return validators;
+    }
+
+    private addFormatValidatorImport(validator: FormatValidator): void {
+        const module = validator.module || FormatRegistry.DEFAULT_MODULE;
+        if (module === 'class-validator') {
+            if (!DtoGenerator.TEMPLATE_VALIDATOR_IMPORTS.includes(validator.name)) {
+                this.templateImports.validator.add(validator.name);
+            }
+        } else if (module === 'class-transformer') {
+            if (validator.name !== 'Type') {
+                this.templateImports.transformer.add(validator.name);
+            }
+        } else if (module === '@nestjs/swagger') {
+            if (validator.name !== 'ApiProperty') {
+                this.templateImports.swagger.add(validator.name);
+            }
+        } else {
+            if (!this.templateImports.modules.has(module)) {
+                this.templateImports.modules.set(module, new Set<string>());
+            }
+            this.templateImports.modules.get(module)!.add(validator.name);
+        }
+    }
+
+    private getStringLengthValidators(schema: any, each: boolean = false): string[] {
+        const options = each ? '{ each: true }' : '';
+        const validators: string[] = [];
+
+        if (schema.minLength !== undefined) {
+            validators.push(DtoGenerator.formatDecorator('MinLength', String(schema.minLength), options));
+        }
+
+        if (schema.maxLength !== undefined) {
+            validators.push(DtoGenerator.formatDecorator('MaxLength', String(schema.maxLength), options));
+        }
+
+        if (schema.pattern) {
+            // Escape bare slashes so the pattern survives as a regex literal
+            const pattern = schema.pattern.replace(/\\.|\//g, (match: string) => match === '/' ? '\\/' : match);
+            validators.push(DtoGenerator.formatDecorator('Matches', `/${pattern}/`, options));
+        }
+
+        return validators;
+    }
+
+    private getNumericValidators(schema: any, each: boolean = false): string[] {
+        const options = each ? '{ each: true }' : '';
+        const bounds = DtoGenerator.getNumericBounds(schema);
+        const validators: string[] = [];
+
+        if (bounds.minimum !== undefined) {
+            if (bounds.exclusiveMinimum && bounds.minimum === 0) {
+                this.templateImports.validator.add('IsPositive');
+                validators.push(DtoGenerator.formatDecorator('IsPositive', options));
+            } else {
+                validators.push(DtoGenerator.formatDecorator('Min', String(bounds.minimum), options));
+                if (bounds.exclusiveMinimum) {
+                    this.templateImports.validator.add('NotEquals');
+                    validators.push(DtoGenerator.formatDecorator('NotEquals', String(bounds.minimum), options));
+                }
+            }
+        }
+
+        if (bounds.maximum !== undefined) {
+            if (bounds.exclusiveMaximum && bounds.maximum === 0) {
+                this.templateImports.validator.add('IsNegative');
+                validators.push(DtoGenerator.formatDecorator('IsNegative', options));
+            } else {
+                validators.push(DtoGenerator.formatDecorator('Max', String(bounds.maximum), options));
+                if (bounds.exclusiveMaximum) {
+                    this.templateImports.validator.add('NotEquals');
+                    validators.push(DtoGenerator.formatDecorator('NotEquals', String(bounds.maximum), options));
+                }
+            }
+        }
+
+        if (schema.multipleOf !== undefined) {
+            this.templateImports.validator.add('IsDivisibleBy');
+            validators.push(DtoGenerator.formatDecorator('IsDivisibleBy', String(schema.multipleOf), options));
+        }
+
+        return validators;
+    }
+
+    private getArrayValidators(schema: any): string[] {
+        const validators = ['@IsArray()'];
+
+        if (schema.minItems !== undefined) {
+            validators.push(`@ArrayMinSize(${schema.minItems})`);
+        }
+        if (schema.maxItems !== undefined) {
+            validators.push(`@ArrayMaxSize(${schema.maxItems})`);
+        }
+        if (schema.uniqueItems === true) {
+            this.templateImports.validator.add('ArrayUnique');
+            validators.push('@ArrayUnique()');
+        }
+
+        return validators;
+    }
+
+    /**
+     * Validators applied to each element of a primitive array. Object, reference and
+     * union items are validated through their own DTO or union decorators instead.
+     */
+    private getArrayItemValidators(items: any): string[] {
+        if (!items || items.$ref || SchemaUtils.isNullable(items) || DtoGenerator.getUnionSchema(items)) {
+            return [];
+        }
+
+        const validators: string[] = [];
+        switch (items.type) {
+            case 'string':
+                validators.push(...this.getStringTypeValidators(items, true));
+                validators.push(...this.getStringLengthValidators(items, true));
+                break;
+            case 'integer':
+                validators.push('@IsInt({ each: true })');
+                validators.push(...this.getNumericValidators(items, true));
+                break;
+            case 'number':
+                validators.push('@IsNumber({}, { each: true })');
+                validators.push(...this.getNumericValidators(items, true));
+                break;
+            case 'boolean':
+                validators.push('@IsBoolean({ each: true })');
+                break;
+        }
+
+        if (items.enum) {
+            this.templateImports.validator.add('IsIn');
+            validators.push(`@IsIn(${DtoGenerator.toTypeScriptLiteral(items.enum)}, { each: true })`);
+        }
+
+        return validators;
+    }
+
+    /**
+     * Normalizes OpenAPI 3.0 boolean and OpenAPI 3.1 numeric exclusive bounds.
+     */
+    private static getNumericBounds(schema: any): {
+        minimum?: number,
+        exclusiveMinimum: boolean,
+        maximum?: number,
+        exclusiveMaximum: boolean
+    } {
+        const bounds = {
+            minimum: schema.minimum as number | undefined,
+            exclusiveMinimum: schema.minimum !== undefined && schema.exclusiveMinimum === true,
+            maximum: schema.maximum as number | undefined,
+            exclusiveMaximum: schema.maximum !== undefined && schema.exclusiveMaximum === true
         };
+
+        if (typeof schema.exclusiveMinimum === 'number' && (bounds.minimum === undefined || schema.exclusiveMinimum >= bounds.minimum)) {
+            bounds.minimum = schema.exclusiveMinimum;
+            bounds.exclusiveMinimum = true;
+        }
+        if (typeof schema.exclusiveMaximum === 'number' && (bounds.maximum === undefined || schema.exclusiveMaximum <= bounds.maximum)) {
+            bounds.maximum = schema.exclusiveMaximum;
+            bounds.exclusiveMaximum = true;
+        }
+
+        return bounds;
+    }
+
+    private static getApiPropertyConstraints(schema: any): string[] {
+        const constraints: string[] = [];
+
+        if (schema.type === 'number' || schema.type === 'integer') {
+            const bounds = DtoGenerator.getNumericBounds(schema);
+            if (bounds.minimum !== undefined) {
+                constraints.push(`minimum: ${bounds.minimum}`);
+                if (bounds.exclusiveMinimum) {
+                    constraints.push('exclusiveMinimum: true');
+                }
+            }
+            if (bounds.maximum !== undefined) {
+                constraints.push(`maximum: ${bounds.maximum}`);
+                if (bounds.exclusiveMaximum) {
+                    constraints.push('exclusiveMaximum: true');
+                }
+            }
+            if (schema.multipleOf !== undefined) {
+                constraints.push(`multipleOf: ${schema.multipleOf}`);
+            }
+        } else if (schema.type === 'array') {
+            if (schema.minItems !== undefined) {
+                constraints.push(`minItems: ${schema.minItems}`);
+            }
+            if (schema.maxItems !== undefined) {
+                constraints.push(`maxItems: ${schema.maxItems}`);
+            }
+            if (schema.uniqueItems === true) {
+                constraints.push('uniqueItems: true');
+            }
+        } else if (schema.type === 'object') {
+            if (schema.minProperties !== undefined) {
+                constraints.push(`minProperties: ${schema.minProperties}`);
+            }
+            if (schema.maxProperties !== undefined) {
+                constraints.push(`maxProperties: ${schema.maxProperties}`);
+            }
+        }
+
+        return constraints;
+    }
+
+    /**
+     * Schema of primitive array items with a format or constraints, which their each-validators enforce.
+     * Enum items are documented through their enum instead.
+     */
+    private static getApiPropertyItems(items: any): string | undefined {
+        if (!items || items.$ref || SchemaUtils.isNullable(items) || DtoGenerator.getUnionSchema(items)
+            || DtoGenerator.isEnumSchema(items) || !['string', 'number', 'integer', 'boolean'].includes(items.type)) {
+            return undefined;
+        }
+
+        const options: string[] = [];
+        if (items.format) {
+            options.push(`format: '${items.format}'`);
+        }
+        if (items.type === 'string') {
+            if (items.minLength !== undefined) {
+                options.push(`minLength: ${items.minLength}`);
+            }
+            if (items.maxLength !== undefined) {
+                options.push(`maxLength: ${items.maxLength}`);
+            }
+            if (items.pattern) {
+                options.push(`pattern: ${DtoGenerator.toTypeScriptLiteral(items.pattern)}`);
+            }
+        }
+        options.push(...DtoGenerator.getApiPropertyConstraints(items));
+
+        return options.length > 0 ? `{ type: '${items.type}', ${options.join(', ')} }` : undefined;
+    }
+
+    private static formatDecorator(name: string, ...args: string[]): string {
+        return `@${name}(${args.filter(arg => arg !== '').join(', ')})`;
     }
 
     private getTypeScriptType(schema: any, spec?: OpenAPISpec, imports?: Set<string>, enumSchemaMap?: Map<string, string>, currentDtoName?: string, propertyName?: string): string {
+        if (SchemaUtils.isNullable(schema)) {
+            const nonNullType = this.getTypeScriptType(SchemaUtils.withoutNull(schema), spec, imports, enumSchemaMap, currentDtoName, propertyName);
+            return nonNullType === 'any' ? nonNullType : `${nonNullType} | null`;
+        }
+
+        if (Array.isArray(schema.type)) {
+            const types = schema.type.map((type: string) =>
+                this.getTypeScriptType({ ...schema, type }, spec, imports, enumSchemaMap, currentDtoName, propertyName)
+            );
+            return Array.from(new Set(types)).join(' | ');
+        }
+
+        if (DtoGenerator.hasLiteralConst(schema)) {
+            return DtoGenerator.toTypeScriptLiteral(schema.const);
+        }
+
         if (schema.$ref) {
             const refName = schema.$ref.split('/').pop();
             const dtoName = `${refName}Dto`;
 
-            // Check for circular reference - if the referenced DTO is the same as current, use 'any'
-            if (currentDtoName && dtoName === currentDtoName) {
-                return 'any';
-            }
-
-            // Add import for referenced DTO if imports set is provided
-            if (imports) {
+            // Self references need no import; the class is in scope by the time its decorators run
+            if (imports && dtoName !== currentDtoName) {
                 imports.add(dtoName);
             }
 
             return dtoName;
         }
 
+        if (!schema.type && DtoGenerator.isEnumSchema(schema)) {
+            return this.resolveEnumName(propertyName || '', schema, spec, enumSchemaMap, currentDtoName);
+        }
+
+        const unionSchema = DtoGenerator.getUnionSchema(schema);
+        if (unionSchema && spec) {
+            const variantTypes = this.getUnionVariants(unionSchema, spec, imports, enumSchemaMap, currentDtoName)
+                .map(variant => variant.type);
+            return Array.from(new Set(variantTypes)).join(' | ');
+        }
+
         switch (schema.type) {
             case 'string':
                 if (schema.enum) {
-                    // Check if this enum matches an existing enum schema from original spec
-                    if (enumSchemaMap) {
-                        const enumKey = JSON.stringify(schema.enum.sort());
-                        if (enumSchemaMap.has(enumKey)) {
-                            return enumSchemaMap.get(enumKey)!;
-                        }
-                    }
-                    return this.getEnumName(propertyName || '', schema.enum);
+                    return this.resolveEnumName(propertyName || '', schema, spec, enumSchemaMap, currentDtoName);
                 }
-                return 'string';
+                return this.formatRegistry.get(schema.format)?.type || 'string';
             case 'number':
             case 'integer':
+                if (schema.enum) {
+                    return this.resolveEnumName(propertyName || '', schema, spec, enumSchemaMap, currentDtoName);
+                }
                 return 'number';
             case 'boolean':
                 return 'boolean';
             case 'array':
                 if (schema.items) {
-                    let itemType = this.getTypeScriptType(schema.items, spec, imports, enumSchemaMap, currentDtoName);
+                    let itemType = this.getTypeScriptType(schema.items, spec, imports, enumSchemaMap, currentDtoName, propertyName);
 
                     // Check if array items match an existing DTO
                     if (schema.items.type === 'object' && schema.items.properties && !schema.items.$ref && imports && spec) {
@@ -588,25 +1084,431 @@ export class DtoGenerator {
                         }
                     }
 
-                    return `${itemType}[]`;
+                    return itemType.includes(' | ') ? `(${itemType})[]` : `${itemType}[]`;
                 }
                 return 'any[]';
             case 'object':
+                if (DtoGenerator.isMapSchema(schema)) {
+                    const valueType = schema.additionalProperties === true
+                        ? 'any'
+                        : this.getTypeScriptType(schema.additionalProperties, spec, imports, enumSchemaMap, currentDtoName, propertyName);
+                    return `Record<string, ${valueType}>`;
+                }
                 return 'object';
+            case 'null':
+                return 'null';
             default:
                 return 'any';
         }
     }
 
 
-    private getEnumName(propertyName: string, enumValues: string[]): string {
-        // Create enum name based on property name
-        const baseName = propertyName.charAt(0).toUpperCase() + propertyName.slice(1);
-        return `${baseName}Enum`;
+    /**
+     * Resolves the declared enum name for a property. `x-enum-name` wins, component enum schemas keep
+     * their own name, and inline enums are named after the component that declares them, so names do not
+     * depend on which DTO happens to be generated first.
+     */
+    private resolveEnumName(propertyName: string, schema: any, spec?: OpenAPISpec, enumSchemaMap?: Map<string, string>, parentDtoName?: string): string {
+        if (typeof schema['x-enum-name'] === 'string' && schema['x-enum-name']) {
+            return schema['x-enum-name'];
+        }
+
+        const enumKey = DtoGenerator.getEnumValuesKey(schema.enum);
+        if (enumSchemaMap?.has(enumKey)) {
+            return enumSchemaMap.get(enumKey)!;
+        }
+
+        let ownerName = parentDtoName ? this.getEnumOwnerName(parentDtoName, spec) : '';
+
+        // Properties inherited through allOf keep the enum of the schema that declares them
+        const ownerSchema = (spec as any)?._originalSpec?.components?.schemas?.[ownerName];
+        for (const allOfItem of ownerSchema?.allOf || []) {
+            if (allOfItem.$ref) {
+                const refName = allOfItem.$ref.split('/').pop();
+                const baseEnum = spec?.components?.schemas?.[refName]?.properties?.[propertyName]?.enum;
+                if (baseEnum && DtoGenerator.getEnumValuesKey(baseEnum) === enumKey) {
+                    ownerName = refName;
+                    break;
+                }
+            }
+        }
+
+        return `${ownerName}${propertyName.charAt(0).toUpperCase()}${propertyName.slice(1)}Enum`;
+    }
+
+    // Write models share their enums with the read model of the same schema
+    private getEnumOwnerName(dtoName: string, spec?: OpenAPISpec): string {
+        const ownerName = dtoName.replace(/Dto$/, '');
+        const readModelName = ownerName.replace(/Create$/, '');
+        const readModelSchema = spec?.components?.schemas?.[readModelName];
+        if (readModelName !== ownerName
+            && DtoImporter.getRequestDtoName(readModelName) === dtoName
+            && SchemaUtils.hasAccessModeProperties(readModelSchema, spec?.components?.schemas)) {
+            return readModelName;
+        }
+        return ownerName;
+    }
+
+    /**
+     * Adds an enum declaration unless one with the same name exists, warning when the existing
+     * declaration has different values since only the first one can be emitted.
+     */
+    private addEnumDefinition(enumDef: EnumDefinition, enums: EnumDefinition[]): void {
+        const existing = enums.find(candidate => candidate.name === enumDef.name);
+        if (!existing) {
+            enums.push(enumDef);
+            return;
+        }
+
+        const existingKey = DtoGenerator.getEnumValuesKey(existing.values.map(member => member.value));
+        if (existingKey !== DtoGenerator.getEnumValuesKey(enumDef.values.map(member => member.value))) {
+            logger.warn(`Enum name ${enumDef.name} is used by enums with different values; keeping [${existing.values.map(member => member.value).join(', ')}]. Set x-enum-name to tell them apart.`);
+        }
+    }
+
+    private getUnionVariants(schema: any, spec: OpenAPISpec, imports?: Set<string>, enumSchemaMap?: Map<string, string>, currentDtoName?: string): Array<{
+        type: string,
+        branch: string,
+        apiSchema: string,
+        isDto: boolean
+    }> {
+        const variants: any[] = schema.oneOf || schema.anyOf;
+
+        return variants.map(variant => {
+            let type: string;
+            if (variant.$ref) {
+                type = `${variant.$ref.split('/').pop()}Dto`;
+                imports?.add(type);
+            } else if ((variant.type === 'object' && variant.properties) || variant.allOf) {
+                // Resolved specs inline component schemas, so match them back to their DTOs
+                type = this.findMatchingExistingDto(variant, spec) || 'object';
+                if (type !== 'object') {
+                    imports?.add(type);
+                }
+            } else {
+                type = this.getTypeScriptType(variant, spec, imports, enumSchemaMap, currentDtoName);
+            }
+
+            const isDto = type.endsWith('Dto');
+            const schemaType = variant.type || 'object';
+            return {
+                type,
+                branch: isDto ? type : `'${schemaType}'`,
+                apiSchema: isDto ? `{ $ref: getSchemaPath(${type}) }` : `{ type: '${schemaType}' }`,
+                isDto
+            };
+        });
+    }
+
+    private buildTypeDecorator(typeReference: string, schema: any, spec: OpenAPISpec, imports: Set<string>): string {
+        const baseSchema = schema.$ref
+            ? spec.components?.schemas?.[schema.$ref.split('/').pop()]
+            : schema;
+        if (!baseSchema?.discriminator) {
+            return `@Type(() => ${typeReference})`;
+        }
+
+        const subTypes = this.getDiscriminatorSubTypes(typeReference.replace(/Dto$/, ''), baseSchema, spec);
+        if (subTypes.length === 0) {
+            return `@Type(() => ${typeReference})`;
+        }
+
+        // Sub types are referenced eagerly in the decorator options, so they must be declared first
+        subTypes.forEach(subType => imports.add(subType.dto));
+        const subTypeList = subTypes
+            .map(subType => `{ value: ${subType.dto}, name: '${subType.name}' }`)
+            .join(', ');
+        const property = baseSchema.discriminator.propertyName;
+        return `@Type(() => ${typeReference}, { discriminator: { property: '${property}', subTypes: [${subTypeList}] }, keepDiscriminatorProperty: true })`;
+    }
+
+    private getDiscriminatorSubTypes(baseSchemaName: string, schema: any, spec: OpenAPISpec): DiscriminatorSubType[] {
+        const mapping: Record<string, string> = schema.discriminator?.mapping || {};
+        const mapped = Object.entries(mapping).map(([name, ref]) => ({
+            name,
+            dto: `${ref.split('/').pop()}Dto`
+        }));
+        if (mapped.length > 0) {
+            return mapped;
+        }
+
+        // Without an explicit mapping the discriminator value is the schema name
+        if (DtoGenerator.getUnionSchema(schema)) {
+            return this.getUnionVariants(schema, spec)
+                .filter(variant => variant.isDto)
+                .map(variant => ({ name: variant.type.replace(/Dto$/, ''), dto: variant.type }));
+        }
+
+        return Object.keys(spec.components?.schemas || {})
+            .filter(schemaName => this.getDiscriminatorParent(schemaName, spec) === baseSchemaName)
+            .map(schemaName => ({ name: schemaName, dto: `${schemaName}Dto` }));
+    }
+
+    private getDiscriminatorParent(schemaName: string, spec: OpenAPISpec): string | undefined {
+        const originalSpec = (spec as any)._originalSpec || spec;
+        const originalSchema = originalSpec.components?.schemas?.[schemaName];
+
+        for (const allOfItem of originalSchema?.allOf || []) {
+            if (allOfItem.$ref) {
+                const refName = allOfItem.$ref.split('/').pop();
+                if (spec.components?.schemas?.[refName]?.discriminator) {
+                    return refName;
+                }
+            }
+        }
+
+        return undefined;
+    }
+
+    private getMapValue(name: string, schema: any, spec: OpenAPISpec, imports: Set<string>, enumSchemaMap: Map<string, string>, currentDtoName?: string): {
+        type: string,
+        branch?: string,
+        apiSchema: string,
+        isDto: boolean
+    } {
+        const valueSchema = SchemaUtils.withoutNull(schema.additionalProperties);
+        if (valueSchema === true || Object.keys(valueSchema).length === 0) {
+            return { type: 'any', apiSchema: 'true', isDto: false };
+        }
+
+        let type: string;
+        if (valueSchema.$ref) {
+            type = `${valueSchema.$ref.split('/').pop()}Dto`;
+        } else if (valueSchema.type === 'object' && valueSchema.properties) {
+            // Inline value objects become their own DTO: ParentTypeFieldValueDto
+            type = this.findMatchingExistingDto(valueSchema, spec) || this.getMapValueDtoName(name, currentDtoName);
+        } else {
+            type = this.getTypeScriptType(valueSchema, spec, imports, enumSchemaMap, currentDtoName, name);
+        }
+
+        const isDto = type.endsWith('Dto');
+        if (isDto) {
+            imports.add(type);
+        }
+
+        const valueType = valueSchema.type === 'integer' ? 'integer' : valueSchema.type;
+        const simpleTypes = ['string', 'number', 'integer', 'boolean', 'array'];
+        const branch = isDto
+            ? type
+            : simpleTypes.includes(valueType) ? `'${valueType}'` : undefined;
+
+        return {
+            type: SchemaUtils.isNullable(schema.additionalProperties) ? `${type} | null` : type,
+            branch,
+            apiSchema: isDto ? `{ $ref: getSchemaPath(${type}) }` : `{ type: '${valueSchema.type || 'object'}' }`,
+            isDto
+        };
+    }
+
+    private getMapValueDtoName(propertyName: string, parentDtoName?: string): string {
+        const parentTypeName = parentDtoName?.replace(/Dto$/, '') || 'Unknown';
+        const fieldName = propertyName.charAt(0).toUpperCase() + propertyName.slice(1);
+        return `${parentTypeName}${fieldName}ValueDto`;
+    }
+
+    private static isMapSchema(schema: any): boolean {
+        if (!schema || schema.type !== 'object' || schema.properties) {
+            return false;
+        }
+        return schema.additionalProperties === true
+            || (typeof schema.additionalProperties === 'object' && schema.additionalProperties !== null);
+    }
+
+    private static getUnionSchema(schema: any): any | undefined {
+        if (schema && (Array.isArray(schema.oneOf) || Array.isArray(schema.anyOf))) {
+            return schema;
+        }
+        return undefined;
+    }
+
+    private static getUnionKind(schema: any): 'oneOf' | 'anyOf' {
+        return schema.oneOf ? 'oneOf' : 'anyOf';
+    }
+
+    private static isDtoReference(type: string): boolean {
+        return /^\w+Dto$/.test(type);
+    }
+
+    private static hasLiteralConst(schema: any): boolean {
+        return schema?.const !== undefined && (schema.const === null || typeof schema.const !== 'object');
+    }
+
+    private static isEnumReference(type: string): boolean {
+        return /^[A-Z]\w*$/.test(type) && !type.endsWith('Dto');
+    }
+
+    private static isEnumSchema(schema: any): boolean {
+        return Array.isArray(schema?.enum)
+            && schema.enum.length > 0
+            && (!schema.type || ['string', 'number', 'integer'].includes(schema.type))
+            && schema.enum.every((value: any) => typeof value === 'string' || typeof value === 'number');
+    }
+
+    // Order-independent identity of an enum's values, without sorting the schema in place
+    private static getEnumValuesKey(values: any[]): string {
+        return JSON.stringify([...values].sort());
+    }
+
+    /**
+     * Builds enum members in schema order. Member names come from `x-enum-varnames` when
+     * present, are sanitized into valid identifiers and suffixed when they collide.
+     */
+    private static getEnumMembers(schema: any): EnumMember[] {
+        const varNames: any[] = schema['x-enum-varnames'] || schema['x-enumNames'] || [];
+        const descriptions: any[] = schema['x-enum-descriptions'] || schema['x-enumDescriptions'] || [];
+        const usedKeys = new Set<string>();
+
+        return schema.enum.map((value: any, index: number) => {
+            const baseKey = typeof varNames[index] === 'string' && /^[A-Za-z_$][\w$]*$/.test(varNames[index])
+                ? varNames[index]
+                : DtoGenerator.toEnumKey(varNames[index] ?? value);
+
+            let key = baseKey;
+            for (let suffix = 2; usedKeys.has(key); suffix++) {
+                key = `${baseKey}_${suffix}`;
+            }
+            usedKeys.add(key);
+
+            const member: EnumMember = { key, value: DtoGenerator.toTypeScriptLiteral(value) };
+            if (descriptions[index]) {
+                member.description = String(descriptions[index]);
+            }
+            return member;
+        });
+    }
+
+    private static getEnumMemberKey(schema: any, value: any): string {
+        const index = schema.enum.indexOf(value);
+        return index >= 0 ? DtoGenerator.getEnumMembers(schema)[index].key : DtoGenerator.toEnumKey(value);
+    }
+
+    private static toEnumKey(value: string | number): string {
+        if (typeof value === 'number') {
+            return `VALUE_${String(value).replace('-', 'MINUS_').replace('.', '_')}`;
+        }
+
+        const key = value
+            .normalize('NFD')
+            .replace(/[\u0300-\u036f]/g, '')
+            .toUpperCase()
+            .replace(/[^A-Z0-9]+/g, '_')
+            .replace(/^_+|_+$/g, '');
+
+        if (!key) {
+            return 'EMPTY';
+        }
+        return /^[0-9]/.test(key) ? `_${key}` : key;
+    }
+
+    private static toTypeScriptLiteral(value: any): string {
+        if (typeof value === 'string') {
+            return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+        }
+        if (Array.isArray(value)) {
+            return `[${value.map(item => DtoGenerator.toTypeScriptLiteral(item)).join(', ')}]`;
+        }
+        if (value !== null && typeof value === 'object') {
+            const entries = Object.entries(value).map(([key, entry]) => {
+                const propertyKey = /^[A-Za-z_$][\w$]*$/.test(key) ? key : `'${key}'`;
+                return `${propertyKey}: ${DtoGenerator.toTypeScriptLiteral(entry)}`;
+            });
+            return entries.length > 0 ? `{ ${entries.join(', ')} }` : '{}';
+        }
+        return String(value);
+    }
+
+    private useUnionValidation(): void {
+        this.usesUnionValidation = true;
+        this.useBranchMatching();
+    }
+
+    private useUnionTransformation(): void {
+        this.usesUnionTransformation = true;
+        this.useBranchMatching();
+        this.templateImports.transformer.add('Transform');
+    }
+
+    private useRecordValidation(): void {
+        this.usesRecordValidation = true;
+        this.useBranchMatching();
+    }
+
+    private useAdditionalPropertiesValidation(): void {
+        this.usesAdditionalPropertiesValidation = true;
+        this.useBranchMatching();
+    }
+
+    private usePropertyCountValidation(): void {
+        this.usesPropertyCountValidation = true;
+        this.templateImports.validator.add('ValidateBy');
+        this.templateImports.validator.add('ValidationOptions');
+        this.templateImports.validator.add('ValidationArguments');
+    }
+
+    private useBranchMatching(): void {
+        this.templateImports.validator.add('ValidateBy');
+        this.templateImports.validator.add('ValidationOptions');
+        this.templateImports.validator.add('ValidationArguments');
+        this.templateImports.validator.add('validateSync');
+        this.templateImports.transformer.add('plainToInstance');
+    }
+
+    private static createTemplateImports(): TemplateImports {
+        return {
+            swagger: new Set<string>(),
+            validator: new Set<string>(),
+            transformer: new Set<string>(),
+            modules: new Map<string, Set<string>>()
+        };
+    }
+
+    private resetTemplateImports(): void {
+        this.templateImports = DtoGenerator.createTemplateImports();
+        this.usesUnionValidation = false;
+        this.usesUnionTransformation = false;
+        this.usesRecordValidation = false;
+        this.usesAdditionalPropertiesValidation = false;
+        this.usesPropertyCountValidation = false;
+        this.usesLazyReferences = false;
+    }
+
+    private getTemplateImportContext(): {
+        swaggerImports: string[],
+        validatorImports: string[],
+        transformerImports: string[],
+        moduleImports: Array<{ module: string, names: string }>,
+        branchMatching: boolean,
+        unionValidation: boolean,
+        unionTransformation: boolean,
+        recordValidation: boolean,
+        additionalPropertiesValidation: boolean,
+        propertyCountValidation: boolean,
+        lazyReferences: boolean
+    } {
+        return {
+            swaggerImports: Array.from(this.templateImports.swagger),
+            validatorImports: Array.from(this.templateImports.validator),
+            transformerImports: Array.from(this.templateImports.transformer),
+            moduleImports: Array.from(this.templateImports.modules.entries())
+                .map(([module, names]) => ({ module, names: Array.from(names).join(', ') })),
+            branchMatching: this.usesUnionValidation || this.usesRecordValidation || this.usesAdditionalPropertiesValidation,
+            unionValidation: this.usesUnionValidation,
+            unionTransformation: this.usesUnionTransformation,
+            recordValidation: this.usesRecordValidation,
+            additionalPropertiesValidation: this.usesAdditionalPropertiesValidation,
+            propertyCountValidation: this.usesPropertyCountValidation,
+            lazyReferences: this.usesLazyReferences
+        };
     }
 
     private getApiPropertyType(tsType: string): string {
         // Convert TypeScript types to their constructor equivalents for @ApiProperty
+        if (tsType.endsWith(' | null')) {
+            return this.getApiPropertyType(tsType.slice(0, -' | null'.length));
+        }
+        if (tsType.startsWith('(') && tsType.endsWith(')')) {
+            return this.getApiPropertyType(tsType.slice(1, -1));
+        }
         if (tsType.endsWith('[]')) {
             const baseType = tsType.slice(0, -2);
             return this.getApiPropertyType(baseType);
@@ -633,6 +1535,13 @@ export class DtoGenerator {
         // Check if this nested object matches an existing schema in the spec
         const schemas = spec.components?.schemas || {};
 
+        // Dereferenced specs reuse the component schema objects, so prefer an exact match
+        for (const [schemaName, schemaDefinition] of Object.entries(schemas)) {
+            if (schemaDefinition === schema) {
+                return `${schemaName}Dto`;
+            }
+        }
+
         for (const [schemaName, schemaDefinition] of Object.entries(schemas)) {
             if (this.schemasMatch(schema, schemaDefinition)) {
                 return `${schemaName}Dto`;
@@ -668,8 +1577,8 @@ export class DtoGenerator {
             
             // Check enum values if both have enums
             if (prop1.enum && prop2.enum) {
-                const enum1 = JSON.stringify(prop1.enum.sort());
-                const enum2 = JSON.stringify(prop2.enum.sort());
+                const enum1 = DtoGenerator.getEnumValuesKey(prop1.enum);
+                const enum2 = DtoGenerator.getEnumValuesKey(prop2.enum);
                 if (enum1 !== enum2) {
                     return false;
                 }
@@ -689,12 +1598,24 @@ export class DtoGenerator {
 
 
     private collectNestedDtoSchemas(schema: any, nestedDtoSchemas: Map<string, any>, spec: OpenAPISpec, parentDtoName?: string): void {
+        // Inline objects as values of undeclared keys
+        const additionalValue = SchemaUtils.withoutNull(schema.additionalProperties);
+        if (additionalValue?.type === 'object' && additionalValue.properties && !additionalValue.$ref
+            && !this.findMatchingExistingDto(additionalValue, spec)) {
+            const inlineDtoName = this.getMapValueDtoName('', parentDtoName);
+            nestedDtoSchemas.set(inlineDtoName, additionalValue);
+            this.collectNestedDtoSchemas(additionalValue, nestedDtoSchemas, spec, inlineDtoName);
+        }
+
         if (!schema.properties) {
             return;
         }
 
         for (const [propName, propSchema] of Object.entries(schema.properties)) {
-            let prop = propSchema as any;
+            let prop = SchemaUtils.withoutNull(propSchema);
+            if (prop.type === 'array') {
+                prop = { ...prop, items: SchemaUtils.withoutNull(prop.items) };
+            }
 
             const ref = prop?.$ref || prop?.items?.$ref
             if (ref) {
@@ -717,6 +1638,16 @@ export class DtoGenerator {
                 }
             }
 
+            // Handle maps whose values are nested objects
+            if (DtoGenerator.isMapSchema(prop)) {
+                const valueSchema = SchemaUtils.withoutNull(prop.additionalProperties);
+                if (valueSchema.type === 'object' && valueSchema.properties && !valueSchema.$ref && !this.findMatchingExistingDto(valueSchema, spec)) {
+                    const inlineDtoName = this.getMapValueDtoName(propName, parentDtoName);
+                    nestedDtoSchemas.set(inlineDtoName, valueSchema);
+                    this.collectNestedDtoSchemas(valueSchema, nestedDtoSchemas, spec, inlineDtoName);
+                }
+            }
+
             // Handle arrays with nested objects
             if (prop.type === 'array' && prop.items && prop.items.type === 'object' && prop.items.properties && !prop.items.$ref) {
                 const matchingDtoName = this.findMatchingExistingDto(prop.items, spec);
@@ -775,7 +1706,29 @@ export class DtoGenerator {
         const sorted = this.topologicalSort(dependencies);
 
         // Return DTOs in dependency order (dependencies first, then main DTO last)
-        return sorted.map(dtoName => allDtos.get(dtoName)).filter(Boolean) as DtoSchema[];
+        const orderedDtos = sorted.map(dtoName => allDtos.get(dtoName)).filter(Boolean) as DtoSchema[];
+        this.markForwardReferences(orderedDtos);
+        return orderedDtos;
+    }
+
+    /**
+     * Cyclic dependencies cannot be ordered, so some DTOs end up referencing classes declared
+     * later in the file. Those properties are typed through `Lazy<T>`, which keeps decorator
+     * metadata from reading the class before its declaration has run.
+     */
+    private markForwardReferences(orderedDtos: DtoSchema[]): void {
+        const declared = new Set<string>();
+        const generated = new Set(orderedDtos.map(dto => dto.name));
+
+        for (const dto of orderedDtos) {
+            declared.add(dto.name);
+            for (const property of dto.properties) {
+                if (property.reference && generated.has(property.reference) && !declared.has(property.reference)) {
+                    property.type = property.type.replace(property.reference, `Lazy<${property.reference}>`);
+                    this.usesLazyReferences = true;
+                }
+            }
+        }
     }
 
     private topologicalSort(dependencies: Map<string, Set<string>>): string[] {
@@ -813,12 +1766,8 @@ export class DtoGenerator {
         return result;
     }
 
-    private collectEnumsForTemplate(schema: any, spec: OpenAPISpec, enumSchemaMap: Map<string, string>, visited = new Set<any>(), parentSchemaName?: string): Array<{
-        name: string,
-        values: Array<{ key: string, value: string }>
-    }> {
-        const enums: Array<{ name: string, values: Array<{ key: string, value: string }> }> = [];
-        const enumNames = new Set<string>();
+    private collectEnumsForTemplate(schema: any, spec: OpenAPISpec, enumSchemaMap: Map<string, string>, visited = new Set<any>(), parentSchemaName?: string): EnumDefinition[] {
+        const enums: EnumDefinition[] = [];
 
         // Prevent infinite recursion by tracking visited schemas
         if (visited.has(schema)) {
@@ -827,102 +1776,222 @@ export class DtoGenerator {
         visited.add(schema);
 
         if (schema.properties) {
+            const parentTypeName = parentSchemaName?.replace(/Dto$/, '') || 'Unknown';
+
             for (const [propName, propSchema] of Object.entries(schema.properties)) {
-                const prop = propSchema as any;
-                if (prop.enum && prop.type === 'string') {
-                    // Check if this enum matches an existing enum schema from original spec
-                    const enumKey = JSON.stringify(prop.enum.sort());
-                    let enumName: string;
-       
-                    if (enumSchemaMap.has(enumKey)) {
-                        // Use the original schema name
-                        enumName = enumSchemaMap.get(enumKey)!;
-                    } else if (this.createdEnumsMap.has(enumKey)) {
-                        // Reuse an enum that was already created during this generation pass
-                        // This handles cases where schemas share enums via allOf
-                        enumName = this.createdEnumsMap.get(enumKey)!;
-                    } else {
-                        // Create a new enum name
-                        // First, check if this schema extends another via allOf that has the same enum
-                        let preferredSchemaName = parentSchemaName;
-                        if (parentSchemaName) {
-                            const originalSpec = (spec as any)._originalSpec;
-                            const schemaName = parentSchemaName.replace(/Dto$/, '');
-                            const currentSchema = originalSpec?.components?.schemas?.[schemaName];
-                            
-                            // Check if this schema extends another via allOf
-                            if (currentSchema?.allOf) {
-                                for (const allOfItem of currentSchema.allOf) {
-                                    if (allOfItem.$ref) {
-                                        const refName = allOfItem.$ref.split('/').pop();
-                                        // Check resolved spec for the base schema (which has properties resolved)
-                                        const baseSchema = spec.components?.schemas?.[refName];
-                                        
-                                        // Check if base schema has the same enum property
-                                        if (baseSchema?.properties?.[propName]?.enum) {
-                                            const baseEnumKey = JSON.stringify(baseSchema.properties[propName].enum.sort());
-                                            if (baseEnumKey === enumKey) {
-                                                // Use base schema name instead
-                                                preferredSchemaName = `${refName}Dto`;
-                                                break;
-                                            }
-                                        }
-                                    }
-                                }
-                            }
-                        }
-                        
-                        if (preferredSchemaName) {
-                            const parentBase = preferredSchemaName.replace(/Dto$/, '');
-                            enumName = `${parentBase}${this.getEnumName(propName, prop.enum)}`;
-                        } else {
-                            // Fallback: include enum values in name to ensure uniqueness
-                            const enumValuesStr = prop.enum.map((v: string) => v.charAt(0).toUpperCase() + v.slice(1)).join('');
-                            enumName = `${this.getEnumName(propName, prop.enum)}${enumValuesStr}`;
-                        }
-                        
-                        // Track this enum for reuse
-                        this.createdEnumsMap.set(enumKey, enumName);
-                    }
+                const prop = SchemaUtils.withoutNull(propSchema);
+                const enumSchema = DtoGenerator.getPropertyEnumSchema(prop);
+                if (enumSchema) {
+                    this.addEnumDefinition({
+                        name: this.resolveEnumName(propName, enumSchema, spec, enumSchemaMap, parentSchemaName),
+                        values: DtoGenerator.getEnumMembers(enumSchema)
+                    }, enums);
+                }
 
-                    if (!enumNames.has(enumName)) {
-                        enumNames.add(enumName);
-                        const enumValues = prop.enum.map((value: string) => ({
-                            key: value.toUpperCase().replace(/[^A-Z0-9]/g, '_'),
-                            value: value
-                        }));
-
-                        enums.push({
-                            name: enumName,
-                            values: enumValues
-                        });
-                    }
+                // Inline objects become their own DTOs, so their enums are named after those DTOs
+                const fieldName = propName.charAt(0).toUpperCase() + propName.slice(1);
+                const nestedSchemas: Array<[any, string]> = [
+                    [prop, `${parentTypeName}${fieldName}Dto`],
+                    [SchemaUtils.withoutNull(prop.items), `${parentTypeName}${fieldName}ItemDto`]
+                ];
+                if (DtoGenerator.isMapSchema(prop)) {
+                    nestedSchemas.push([SchemaUtils.withoutNull(prop.additionalProperties), this.getMapValueDtoName(propName, parentSchemaName)]);
                 }
 
-                // Recursively check nested objects (but not $ref to avoid infinite recursion)
-                if (prop.type === 'object' && prop.properties && !visited.has(prop)) {
-                    const nestedEnums = this.collectEnumsForTemplate(prop, spec, enumSchemaMap, visited, parentSchemaName);
-                    nestedEnums.forEach(nestedEnum => {
-                        if (!enumNames.has(nestedEnum.name)) {
-                            enumNames.add(nestedEnum.name);
-                            enums.push(nestedEnum);
-                        }
-                    });
+                for (const [nestedSchema, nestedDtoName] of nestedSchemas) {
+                    if (nestedSchema?.type === 'object' && nestedSchema.properties && !visited.has(nestedSchema)
+                        && !this.findMatchingExistingDto(nestedSchema, spec)) {
+                        this.collectEnumsForTemplate(nestedSchema, spec, enumSchemaMap, visited, nestedDtoName)
+                            .forEach(nestedEnum => this.addEnumDefinition(nestedEnum, enums));
+                    }
                 }
+            }
+        }
 
-                if (prop.type === 'array' && prop.items && prop.items.type === 'object' && prop.items.properties && !visited.has(prop.items)) {
-                    const arrayEnums = this.collectEnumsForTemplate(prop.items, spec, enumSchemaMap, visited, parentSchemaName);
-                    arrayEnums.forEach(arrayEnum => {
-                        if (!enumNames.has(arrayEnum.name)) {
-                            enumNames.add(arrayEnum.name);
-                            enums.push(arrayEnum);
+        return enums;
+    }
+
+    // The enum declared by a property itself, its array items or its map values
+    private static getPropertyEnumSchema(prop: any): any {
+        if (DtoGenerator.isEnumSchema(prop)) {
+            return prop;
+        }
+        const items = SchemaUtils.withoutNull(prop.items);
+        if (prop.type === 'array' && DtoGenerator.isEnumSchema(items)) {
+            return items;
+        }
+        const values = SchemaUtils.withoutNull(prop.additionalProperties);
+        if (DtoGenerator.isMapSchema(prop) && DtoGenerator.isEnumSchema(values)) {
+            return values;
+        }
+        return undefined;
+    }
+
+    private addQueryCoercion(dtoSchema: DtoSchema, schema: any): void {
+        for (const property of dtoSchema.properties) {
+            const propertySchema = schema.properties[property.name.replace(/\?$/, '')];
+            const decorators = this.getQueryCoercionDecorators(SchemaUtils.withoutNull(propertySchema));
+            const apiPropertyIndex = property.decorators.findIndex(decorator => decorator.startsWith('@ApiProperty('));
+            property.decorators.splice(apiPropertyIndex < 0 ? property.decorators.length : apiPropertyIndex, 0, ...decorators);
+        }
+    }
+
+    /**
+     * Query and form keys such as sort-by or page[size] are no valid property names, so their
+     * properties are camelCased. Returns the renamed schema and the key of each renamed property.
+     */
+    private static withPropertyNames(schema: any): { schema: any; keys: Map<string, string> } {
+        const keys = new Map<string, string>();
+        const properties: { [name: string]: any } = {};
+        for (const [key, property] of Object.entries(schema.properties || {})) {
+            const name = SchemaUtils.toPropertyName(key);
+            if (name !== key) {
+                keys.set(name, key);
+            }
+            properties[name] = property;
+        }
+        if (keys.size === 0) {
+            return { schema, keys };
+        }
+
+        const required = (schema.required || []).map((key: string) =>
+            Array.from(keys.entries()).find(([_, original]) => original === key)?.[0] ?? key);
+        return { schema: { ...schema, properties, required }, keys };
+    }
+
+    /**
+     * Maps renamed properties back to their keys for class-transformer and Swagger. The extended
+     * query parser (the Express 4 default) delivers a key such as page[size] as { page: { size } },
+     * so bracketed keys fall back to that nested value.
+     */
+    private exposeKeys(dtoSchema: DtoSchema, keys: Map<string, string>): void {
+        const quote = (key: string) => `'${key.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+        for (const property of dtoSchema.properties) {
+            const key = keys.get(property.name.replace(/\?$/, ''));
+            if (!key) {
+                continue;
+            }
+            const quotedKey = quote(key);
+            this.templateImports.transformer.add('Expose');
+            property.decorators = property.decorators.map(decorator => decorator === '@ApiProperty()'
+                ? `@ApiProperty({ name: ${quotedKey} })`
+                : decorator.replace(/^@ApiProperty\(\{ /, `@ApiProperty({ name: ${quotedKey}, `));
+            const apiPropertyIndex = property.decorators.findIndex(decorator => decorator.startsWith('@ApiProperty('));
+            property.decorators.splice(apiPropertyIndex < 0 ? property.decorators.length : apiPropertyIndex, 0, `@Expose({ name: ${quotedKey} })`);
+
+            const path = key.match(/^([^[\]]+)((?:\[[^[\]]+\])+)$/);
+            if (path) {
+                const [first, ...rest] = [path[1], ...path[2].slice(1, -1).split('][')].map(quote);
+                this.templateImports.transformer.add('Transform');
+                // @Type only converts the value under the exposed key, a Transform converts either value
+                property.decorators = property.decorators.map(decorator => decorator === '@Type(() => Number)'
+                    ? '@Transform(({ value }) => (value === undefined ? value : Number(value)))'
+                    : decorator);
+                // Transforms run in declaration order, so the nested value is read before it is converted
+                const transformIndex = property.decorators.findIndex(decorator => decorator.startsWith('@Transform(') || decorator.startsWith('@Expose('));
+                property.decorators.splice(transformIndex, 0, `@Transform(({ value, obj }) => value ?? obj[${first}]${rest.map(segment => `?.[${segment}]`).join('')})`);
+            }
+        }
+    }
+
+    private getQueryCoercionDecorators(schema: any): string[] {
+        if (schema.type === 'integer' || schema.type === 'number') {
+            return ['@Type(() => Number)'];
+        }
+        if (schema.type === 'boolean') {
+            this.templateImports.transformer.add('Transform');
+            return [`@Transform(({ value }) => (value === 'true' ? true : value === 'false' ? false : value))`];
+        }
+        if (schema.type === 'array') {
+            // A single occurrence of a repeated key is not an array yet, a delimited value is split
+            const delimiter = SchemaUtils.getQueryArrayDelimiter(schema.style, schema.explode);
+            const single = delimiter === undefined ? '[value]' : `String(value).split('${delimiter}')`;
+            const items = SchemaUtils.withoutNull(schema.items);
+            const toNumber = items?.type === 'integer' || items?.type === 'number' ? '.map(Number)' : '';
+            this.templateImports.transformer.add('Transform');
+            return [`@Transform(({ value }) => (Array.isArray(value) ? value : ${single})${toNumber})`];
+        }
+        return [];
+    }
+
+    /**
+     * Names of the component schemas request bodies of any media type hold, directly or nested in
+     * other schemas.
+     */
+    private findRequestBodySchemaNames(spec: OpenAPISpec): Set<string> {
+        const schemaNames = new Set<string>();
+        const componentSchemas = spec.components?.schemas || {};
+        // Resolved specs reuse the component schema objects wherever they are referenced
+        const componentNames = new Map(Object.entries(componentSchemas).map(([name, schema]) => [schema, name]));
+        const visited = new Set<any>();
+
+        const collect = (schema: any) => {
+            if (!schema || typeof schema !== 'object' || visited.has(schema)) {
+                return;
+            }
+            visited.add(schema);
+
+            const name = schema.$ref ? schema.$ref.split('/').pop() : componentNames.get(schema);
+            if (name) {
+                schemaNames.add(name);
+            }
+            SchemaUtils.getSubschemas(schema.$ref ? componentSchemas[name] || {} : schema).forEach(collect);
+        };
+
+        for (const pathItem of Object.values(spec.paths || {})) {
+            for (const operation of Object.values(pathItem || {})) {
+                Object.values((operation as any)?.requestBody?.content || {})
+                    .forEach((mediaType: any) => collect(mediaType?.schema));
+            }
+        }
+
+        return schemaNames;
+    }
+
+    /**
+     * Names of the component schemas that deepObject and exploded form object query parameters reference.
+     */
+    private findQueryObjectSchemaNames(spec: OpenAPISpec): Set<string> {
+        const schemaNames = new Set<string>();
+        // Resolved specs reuse the component schema objects wherever they are referenced
+        const componentNames = new Map(Object.entries(spec.components?.schemas || {}).map(([name, schema]) => [schema, name]));
+
+        for (const pathItem of Object.values(spec.paths || {})) {
+            for (const [method, operation] of Object.entries(pathItem || {})) {
+                if (method === 'parameters' || !operation || typeof operation !== 'object') {
+                    continue;
+                }
+                SchemaUtils.mergeParameters((pathItem as any).parameters, (operation as any).parameters)
+                    .filter(param => param.in === 'query' && DtoImporter.getQueryObjectDtoType(param, '', spec))
+                    .forEach(param => {
+                        const name = componentNames.get(param.schema);
+                        if (name) {
+                            schemaNames.add(name);
                         }
                     });
-                }
             }
         }
 
-        return enums;
+        return schemaNames;
+    }
+
+    // Write models nest the write models of the schemas they reference
+    private useWriteModels(dto: DtoSchema): void {
+        const rename = (code: string) => code.replace(/\b(\w+)Dto\b/g, (dtoName, schemaName) =>
+            this.writeModelSchemaNames.has(schemaName) ? DtoImporter.getRequestDtoName(schemaName) : dtoName);
+
+        dto.properties.forEach(property => {
+            property.type = rename(property.type);
+            property.decorators = property.decorators.map(rename);
+            property.reference = property.reference && rename(property.reference);
+        });
+        dto.imports = dto.imports.map(rename);
+        dto.decorators = dto.decorators?.map(rename);
+        dto.extends = dto.extends && rename(dto.extends);
+        if (dto.additionalProperties) {
+            dto.additionalProperties.type = rename(dto.additionalProperties.type);
+            dto.additionalProperties.decorators = dto.additionalProperties.decorators.map(rename);
+        }
     }
 
     private static splitSchemas(schemas: { [key: string]: any }): {
@@ -977,19 +2046,44 @@ export class DtoGenerator {
         allDtos: Map<string, DtoSchema>,
         dependencies: Map<string, Set<string>>,
         nestedDtoSchemas: Map<string, any>,
-        allEnums: Array<{ name: string, values: Array<{ key: string, value: string }> }>,
-        enumNames: Set<string>,
+        allEnums: EnumDefinition[],
         enumSchemaMap: Map<string, string>,
-        collectNested: boolean = true
+        collectNested: boolean = true,
+        excludedAccessMode?: 'readOnly' | 'writeOnly'
     ): void {
+        const parentSchemaName = schema.allOf
+            ? this.getDiscriminatorParent(dtoName.replace(/Dto$/, ''), spec)
+            : undefined;
+
         // Handle allOf if present
-        if (schema.allOf) {
+        if (parentSchemaName) {
+            // Keep the discriminated base as a superclass and only generate the subtype's own properties
+            const parentSchema = spec.components?.schemas?.[parentSchemaName];
+            const ownSchemas = schema.allOf.filter((subSchema: any) =>
+                subSchema !== parentSchema && subSchema.$ref?.split('/').pop() !== parentSchemaName
+            );
+            schema = this.mergeAllOf({ allOf: ownSchemas }, spec);
+        } else if (schema.allOf) {
             schema = this.mergeAllOf(schema, spec);
         }
 
+        if (excludedAccessMode) {
+            schema = SchemaUtils.withoutAccessMode(schema, excludedAccessMode);
+        }
+
         // Only process if schema is not an enum
         if (!schema.enum) {
             const dtoSchema = this.processSchema(dtoName, schema, spec, enumSchemaMap);
+            if (parentSchemaName) {
+                dtoSchema.extends = `${parentSchemaName}Dto`;
+                dtoSchema.imports.push(dtoSchema.extends);
+            }
+            if (schema.discriminator && schema.properties) {
+                dtoSchema.abstract = true;
+            }
+            if (excludedAccessMode === 'readOnly') {
+                this.useWriteModels(dtoSchema);
+            }
 
             allDtos.set(dtoName, dtoSchema);
             dependencies.set(dtoName, new Set(dtoSchema.imports));
@@ -1002,11 +2096,6 @@ export class DtoGenerator {
 
         // Collect enums from the resolved schema, passing the DTO name as parent context
         const schemaEnums = this.collectEnumsForTemplate(schema, spec, enumSchemaMap, new Set(), dtoName);
-        schemaEnums.forEach(enumDef => {
-            if (!enumNames.has(enumDef.name)) {
-                enumNames.add(enumDef.name);
-                allEnums.push(enumDef);
-            }
-        });
+        schemaEnums.forEach(enumDef => this.addEnumDefinition(enumDef, allEnums));
     }
 }
\ No newline at end of file
@@ -1,6 +1,8 @@
 import { OpenAPISpec, PathItem, Operation } from '../types/openapi';
 import { TemplateLoader } from '../utils/template-loader';
 import { DtoImporter } from '../utils/dto-importer';
+import { SchemaUtils } from '../utils/schema-utils';
+import { MediaTypeUtils } from '../utils/media-type-utils';
 
 interface ServiceMethod {
   httpMethod: string;
@@ -9,6 +11,7 @@ interface ServiceMethod {
   summary?: string;
   parameters: MethodParameter[];
   bodyParam?: BodyParameter;
+  fileParameters: MethodParameter[];
   returnType: string;
 }
 
@@ -16,19 +19,29 @@ interface MethodParameter {
   name: string;
   type: string;
   required?: boolean;
+  in?: string; // path, query, header, cookie, body or file, orders the parameters like the controller
 }
 
 interface BodyParameter {
   type: string;
 }
 
+export interface ServiceGeneratorOptions {
+  useSingleRequestParameter?: boolean;
+  requestMediaTypes?: string[];
+}
+
 export class ServiceGenerator {
   private templateLoader: TemplateLoader;
   private readonly isDtoGenerationEnabled: boolean;
+  private readonly useSingleRequestParameter: boolean;
+  private readonly requestMediaTypes: string[];
 
-  constructor(templateDir?: string, isDtoGenerationEnabled: boolean = true) {
+  constructor(templateDir?: string, isDtoGenerationEnabled: boolean = true, options: ServiceGeneratorOptions = {}) {
     this.templateLoader = new TemplateLoader(templateDir);
     this.isDtoGenerationEnabled = isDtoGenerationEnabled;
+    this.useSingleRequestParameter = options.useSingleRequestParameter ?? false;
+    this.requestMediaTypes = options.requestMediaTypes ?? MediaTypeUtils.DEFAULT_REQUEST_MEDIA_TYPES;
   }
 
   async generateService(
@@ -46,7 +59,7 @@ export class ServiceGenerator {
       resourceName: resourceName.toLowerCase(),
       methods: methods.map(m => ({
         ...m,
-        hasParams: m.parameters.length > 0 || !!m.bodyParam
+        hasParams: m.parameters.length > 0
       })),
       dtoImports: this.isDtoGenerationEnabled ? DtoImporter.generateImportStatements(localDtos, sharedDtosUsed, resourceName) : undefined
     });
@@ -70,7 +83,7 @@ export class ServiceGenerator {
         const serviceMethod = this.processOperation(
           method,
           pathStr,
-          operation,
+          { ...operation, parameters: SchemaUtils.mergeParameters(pathItem.parameters, operation.parameters) },
           spec,
           basePath
         );
@@ -89,55 +102,158 @@ export class ServiceGenerator {
     basePath: string
   ): ServiceMethod {
     const methodName = operation.operationId || this.generateMethodName(httpMethod, path);
-    const parameters = this.processParameters(operation.parameters || []);
+    const parameters = this.processParameters(operation.parameters || [], methodName, spec);
     const originalSpec = (spec as any)._originalSpec;
-    const bodyParam = this.processRequestBody(operation.requestBody, operation.operationId, originalSpec);
+    const mediaType = MediaTypeUtils.selectMediaType(operation.requestBody?.content, this.requestMediaTypes);
+    const bodyKind = mediaType ? MediaTypeUtils.getBodyKind(mediaType) : undefined;
+    const bodyParam = mediaType && bodyKind !== 'json'
+      ? this.processMediaBody(operation.requestBody, mediaType, methodName)
+      : this.processRequestBody(operation.requestBody, operation.operationId, originalSpec, spec, mediaType);
     const returnType = this.getReturnType(operation.responses, operation.operationId, originalSpec);
 
+    const fileParameters = bodyKind === 'multipart' ? this.getFileParameters(operation.requestBody!.content[mediaType!]) : [];
+
     return {
       httpMethod: this.capitalize(httpMethod),
       methodName,
       path,
       summary: operation.summary,
-      parameters,
+      parameters: this.sortParameters([
+        ...parameters,
+        ...(bodyParam ? [{ name: 'body', type: bodyParam.type, required: true, in: 'body' }] : []),
+        ...fileParameters
+      ]),
       bodyParam,
+      fileParameters,
       returnType
     };
   }
 
-  private processParameters(parameters: any[]): MethodParameter[] {
-    return parameters.map(param => {
-      const type = this.getParamType(param.schema);
-      const isRequired = param.required === true || param.in === 'path';
-      const nameWithOptional = isRequired ? param.name : `${param.name}?`;
-      
-      return {
-        name: nameWithOptional,
-        type: type,
-        required: isRequired
-      };
+  private processParameters(parameters: any[], methodName: string, spec: OpenAPISpec): MethodParameter[] {
+    // Query parameters arrive as one DTO, matching the generated controller
+    const groupQuery = this.useSingleRequestParameter && this.isDtoGenerationEnabled
+      && parameters.some(param => param.in === 'query');
+
+    const processed: MethodParameter[] = parameters
+      .filter(param => !groupQuery || param.in !== 'query')
+      .map(param => {
+        const objectType = param.in === 'query' && this.isDtoGenerationEnabled
+          ? DtoImporter.getQueryObjectDtoType(param, methodName, spec)
+          : undefined;
+        const type = objectType || this.getParamType(param.schema);
+        const isRequired = param.required === true || param.in === 'path';
+        // Header and cookie names such as X-Request-Id are camelCased like in the controller
+        const name = param.in === 'header' || param.in === 'cookie' ? this.toCamelCase(param.name)
+          : param.in === 'query' ? SchemaUtils.toPropertyName(param.name)
+            : param.name;
+        const nameWithOptional = isRequired ? name : `${name}?`;
+
+        return {
+          name: nameWithOptional,
+          type: type,
+          required: isRequired,
+          in: param.in
+        };
+      });
+
+    if (groupQuery) {
+      processed.push({ name: 'query', type: DtoImporter.getQueryDtoName(methodName), required: true, in: 'query' });
+    }
+    return processed;
+  }
+
+  // Same order as the abstract controller methods: required first, then path, body, query and header parameters
+  private sortParameters(parameters: MethodParameter[]): MethodParameter[] {
+    const priorities: { [location: string]: number } = { path: 1, body: 2, query: 3, header: 4 };
+    const getPriority = (param: MethodParameter) => priorities[param.in || ''] ?? 5;
+
+    return parameters.sort((a, b) => {
+      if (a.required !== b.required) {
+        return a.required ? -1 : 1;
+      }
+      if (getPriority(a) !== getPriority(b)) {
+        return getPriority(a) - getPriority(b);
+      }
+      return a.name.localeCompare(b.name);
     });
   }
 
-  private processRequestBody(requestBody?: any, operationId?: string, originalSpec?: any): BodyParameter | undefined {
+  private processRequestBody(
+    requestBody?: any,
+    operationId?: string,
+    originalSpec?: any,
+    spec?: OpenAPISpec,
+    mediaType: string = 'application/json'
+  ): BodyParameter | undefined {
     if (!requestBody || !requestBody.content) return undefined;
 
-    const content = requestBody.content['application/json'];
+    const content = requestBody.content[mediaType];
     if (!content || !content.schema) return undefined;
 
     // Try to find the original reference in the unresolved spec
     let originalRef: string | undefined;
     if (originalSpec && operationId) {
-      originalRef = this.findOriginalSchemaRef(originalSpec, operationId, 'requestBody');
+      originalRef = this.findOriginalSchemaRef(originalSpec, operationId, 'requestBody', undefined, mediaType);
+    }
+
+    if (SchemaUtils.getUnionKind(content.schema)) {
+      const originalSchema = originalSpec && operationId
+        ? this.findOriginalSchema(originalSpec, operationId, 'requestBody', undefined, mediaType)
+        : undefined;
+      return { type: this.getUnionType(content.schema, originalSchema) };
     }
 
     let type = this.getSchemaType(content.schema, originalRef);
+    type = DtoImporter.getRequestBodyDtoType(type, content.schema, spec);
     
     return {
       type
     };
   }
 
+  // Bodies of other media types than JSON, typed like in the generated controller
+  private processMediaBody(requestBody: any, mediaType: string, methodName: string): BodyParameter | undefined {
+    const kind = MediaTypeUtils.getBodyKind(mediaType);
+    if (kind === 'text') {
+      return { type: 'string' };
+    }
+    if (kind === 'binary') {
+      return { type: 'Buffer' };
+    }
+
+    const schema = SchemaUtils.withoutNull(requestBody.content[mediaType].schema || {});
+    const hasFields = Object.values(schema.properties || {})
+      .some(property => kind === 'form' || !SchemaUtils.isFileSchema(property));
+    if (!hasFields) {
+      return kind === 'form' ? { type: '{ [field: string]: string }' } : undefined;
+    }
+    return { type: this.isDtoGenerationEnabled ? DtoImporter.getFormBodyDtoName(methodName) : 'any' };
+  }
+
+  private getFileParameters(content: any): MethodParameter[] {
+    const schema = SchemaUtils.withoutNull(content.schema || {});
+    const required: string[] = schema.required || [];
+    const fileFields = (Object.entries(schema.properties || {}) as [string, any][])
+      .filter(([_, property]) => SchemaUtils.isFileSchema(property));
+
+    if (fileFields.length === 1) {
+      const [fieldName, property] = fileFields[0];
+      const isRequired = required.includes(fieldName);
+      const name = this.toCamelCase(fieldName);
+      return [{
+        name: isRequired ? name : `${name}?`,
+        type: SchemaUtils.withoutNull(property).type === 'array' ? 'Express.Multer.File[]' : 'Express.Multer.File',
+        required: isRequired,
+        in: 'file'
+      }];
+    }
+    if (fileFields.length > 1) {
+      const keys = fileFields.map(([fieldName]) => `${/^[A-Za-z_$][\w$]*$/.test(fieldName) ? fieldName : `'${fieldName}'`}?: Express.Multer.File[]`);
+      return [{ name: 'files', type: `{ ${keys.join('; ')} }`, required: true, in: 'file' }];
+    }
+    return [];
+  }
+
   private getReturnType(responses: any, operationId?: string, originalSpec?: any): string {
     const successResponse = Object.entries(responses).find(([status]) => {
       const statusCode = parseInt(status);
@@ -147,14 +263,29 @@ export class ServiceGenerator {
     if (!successResponse) return 'void';
 
     const [status, response] = successResponse as [string, any];
-    const content = response.content?.['application/json'];
+    const mediaTypes = Object.keys(response.content || {});
+    const mediaType = mediaTypes.includes('application/json')
+      ? 'application/json'
+      : mediaTypes.find(mt => MediaTypeUtils.getBodyKind(mt) === 'json');
+    if (!mediaType && mediaTypes.length > 0) {
+      // Text responses are sent as strings, files as buffers the controller streams back
+      return mediaTypes.every(mt => MediaTypeUtils.getBodyKind(mt) === 'text') ? 'string' : 'Buffer';
+    }
+    const content = mediaType ? response.content[mediaType] : undefined;
     
     if (!content || !content.schema) return 'void';
 
+    if (SchemaUtils.getUnionKind(content.schema)) {
+      const originalSchema = originalSpec && operationId
+        ? this.findOriginalSchema(originalSpec, operationId, 'response', status, mediaType)
+        : undefined;
+      return this.getUnionType(content.schema, originalSchema);
+    }
+
     // Try to find the original reference in the unresolved spec
     let originalRef: string | undefined;
     if (originalSpec && operationId) {
-      originalRef = this.findOriginalSchemaRef(originalSpec, operationId, 'response', status);
+      originalRef = this.findOriginalSchemaRef(originalSpec, operationId, 'response', status, mediaType);
     }
 
     return this.getSchemaType(content.schema, originalRef);
@@ -162,21 +293,34 @@ export class ServiceGenerator {
 
   private getParamType(schema: any): string {
     if (!schema) return 'string';
-    const type = schema.type || 'string';
-    return type === 'integer' ? 'number' : type;
+    const nonNullSchema = SchemaUtils.withoutNull(schema);
+    const schemaType = typeof nonNullSchema.type === 'string' ? nonNullSchema.type : 'string';
+    const type = schemaType === 'integer' ? 'number'
+      : schemaType === 'array' ? `${this.getParamType(nonNullSchema.items)}[]`
+        : schemaType;
+    return SchemaUtils.isNullable(schema) ? `${type} | null` : type;
   }
 
+  // Resolved like the controller's types, so both sides of the generated service agree
   private getSchemaType(schema: any, originalRef?: string): string {
+    if (SchemaUtils.isNullable(schema)) {
+      return SchemaUtils.withNullType(this.getSchemaType(SchemaUtils.withoutNull(schema), originalRef));
+    }
+
     // If we have the original reference, use that
     if (originalRef) {
       const refName = originalRef.split('/').pop();
-      return `${refName}Dto`;
+      return schema.type === 'array' ? `${refName}Dto[]` : `${refName}Dto`;
     }
     
     if (schema.$ref) {
       const refName = schema.$ref.split('/').pop();
       return `${refName}Dto`;
     }
+
+    if (SchemaUtils.getUnionKind(schema)) {
+      return this.getUnionType(schema);
+    }
     
     if (schema.type === 'array') {
       // Handle array responses
@@ -185,16 +329,25 @@ export class ServiceGenerator {
           const refName = schema.items.$ref.split('/').pop();
           return `${refName}Dto[]`;
         }
-        return 'any[]';
+        const itemType = this.getPrimitiveType(schema.items);
+        return itemType ? `${itemType}[]` : 'any[]';
       }
       return 'any[]';
     }
     
-    if (schema.type === 'object' && schema.properties) {
-      return 'any';
-    }
-    
-    return 'any';
+    return this.getPrimitiveType(schema) || 'any';
+  }
+
+  private getPrimitiveType(schema: any): string | undefined {
+    if (schema.type === 'null') return 'null';
+    if (schema.type === 'string') return 'string';
+    if (schema.type === 'number' || schema.type === 'integer') return 'number';
+    if (schema.type === 'boolean') return 'boolean';
+    return undefined;
+  }
+
+  private getUnionType(schema: any, originalSchema?: any): string {
+    return SchemaUtils.getUnionType(schema, originalSchema, (variant, originalRef) => this.getSchemaType(variant, originalRef));
   }
 
   private generateMethodName(httpMethod: string, path: string): string {
@@ -210,13 +363,17 @@ export class ServiceGenerator {
     }
 
     const dtos = new Set<string>();
+    // Bodies, responses and parameters may be arrays or unions of DTOs, next to primitives, strings and buffers
+    const addDtos = (type: string) => type.split(' | ')
+      .map(member => member.replace(/\[\]$/, ''))
+      .filter(member => /^\w+Dto$/.test(member))
+      .forEach(member => dtos.add(member));
     methods.forEach(m => {
       if (m.bodyParam) {
-        dtos.add(m.bodyParam.type);
-      }
-      if (m.returnType !== 'void' && m.returnType !== 'any') {
-        dtos.add(m.returnType);
+        addDtos(m.bodyParam.type);
       }
+      addDtos(m.returnType);
+      m.parameters.forEach(param => addDtos(param.type));
     });
     return DtoImporter.resolveDtoImports(dtos, spec);
   }
@@ -225,6 +382,11 @@ export class ServiceGenerator {
     return str.charAt(0).toUpperCase() + str.slice(1);
   }
 
+  private toCamelCase(str: string): string {
+    return str.replace(/-([a-zA-Z])/g, (match, letter) => letter.toUpperCase())
+      .replace(/^[A-Z]/, (match) => match.toLowerCase());
+  }
+
   private generateClassName(resourceName: string): string {
     // Split by dots and hyphens, then capitalize each part
     return resourceName
@@ -233,30 +395,36 @@ export class ServiceGenerator {
       .join('');
   }
 
-  private findOriginalSchemaRef(originalSpec: any, operationId: string, type: 'requestBody' | 'response', status?: string): string | undefined {
+  private findOriginalSchemaRef(
+    originalSpec: any,
+    operationId: string,
+    type: 'requestBody' | 'response',
+    status?: string,
+    mediaType: string = 'application/json'
+  ): string | undefined {
+    const schema = this.findOriginalSchema(originalSpec, operationId, type, status, mediaType);
+    // Array responses are typed by their items
+    return type === 'response' && !schema?.$ref && schema?.type === 'array' ? schema.items?.$ref : schema?.$ref;
+  }
+
+  private findOriginalSchema(
+    originalSpec: any,
+    operationId: string,
+    type: 'requestBody' | 'response',
+    status?: string,
+    mediaType: string = 'application/json'
+  ): any | undefined {
     if (!originalSpec || !originalSpec.paths) return undefined;
 
     // Find the operation in the original spec
-    for (const [pathKey, pathItem] of Object.entries(originalSpec.paths)) {
-      for (const [method, operation] of Object.entries(pathItem as any)) {
+    for (const [, pathItem] of Object.entries(originalSpec.paths)) {
+      for (const [, operation] of Object.entries(pathItem as any)) {
         if (operation && typeof operation === 'object' && (operation as any).operationId === operationId) {
           const op = operation as any;
           if (type === 'requestBody' && op.requestBody) {
-            const content = op.requestBody.content?.['application/json'];
-            if (content && content.schema && content.schema.$ref) {
-              return content.schema.$ref;
-            }
+            return op.requestBody.content?.[mediaType]?.schema;
           } else if (type === 'response' && status && op.responses && op.responses[status]) {
-            const response = op.responses[status];
-            const content = response.content?.['application/json'];
-            if (content && content.schema) {
-              if (content.schema.$ref) {
-                return content.schema.$ref;
-              } else if (content.schema.type === 'array' && content.schema.items && content.schema.items.$ref) {
-                // Handle array responses
-                return content.schema.items.$ref;
-              }
-            }
+            return op.responses[status].content?.[mediaType]?.schema;
           }
         }
       }
@@ -12,14 +12,14 @@ export { GeneratorOrchestrator } from './orchestrator/generator-orchestrator';
 
 // Configuration management
 export { ConfigLoader } from './config/config-loader';
-export { GeneratorConfig, defaultConfig } from './types/config';
+export { GeneratorConfig, FormatMapping, FormatValidator, defaultConfig } from './types/config';
 
 // OpenAPI parsing
 export { SpecParser } from './parser/spec-parser';
 
 // Code generators
 export { DtoGenerator } from './generator/dto-generator';
-export { ControllerGenerator } from './generator/controller-generator';
+export { ControllerGenerator, ControllerGeneratorOptions } from './generator/controller-generator';
 export { FileWriter } from './generator/file-writer';
 
 // File watching
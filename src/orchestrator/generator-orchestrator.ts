@@ -22,16 +22,30 @@ export class GeneratorOrchestrator {
     this.logger = new Logger();
     this.specParser = new SpecParser();
     this.dtoGenerator = new DtoGenerator(
-      this.config.templateDir
+      this.config.templateDir,
+      this.config.formats,
+      this.config.generatorOptions?.enumStyle
     );
     this.controllerGenerator = new ControllerGenerator(
       this.config.templateDir,
       this.config.generatorOptions?.includeErrorTypesInReturnType ?? false,
-      this.config.generateDtos
+      this.config.generateDtos,
+      {
+        useSingleRequestParameter: this.config.generatorOptions?.useSingleRequestParameter,
+        requestMediaTypes: this.config.generatorOptions?.requestMediaTypes,
+        guards: this.config.guards,
+        deprecationHeaders: this.config.generatorOptions?.deprecationHeaders,
+        responseHeaders: this.config.generatorOptions?.responseHeaders,
+        statusResults: this.config.generatorOptions?.statusResults
+      }
     );
     this.serviceGenerator = new ServiceGenerator(
       this.config.templateDir, 
-      this.config.generateDtos
+      this.config.generateDtos,
+      {
+        useSingleRequestParameter: this.config.generatorOptions?.useSingleRequestParameter,
+        requestMediaTypes: this.config.generatorOptions?.requestMediaTypes
+      }
     );
     this.fileWriter = new FileWriter(this.logger);
   }
@@ -83,10 +97,18 @@ export class GeneratorOrchestrator {
     // Generate controller first to collect inline response schemas
     if (this.config.generateControllers && spec.paths) {
       await this.generateController(resourceName, spec, outputDir);
+    } else if (this.config.generateServices && spec.paths) {
+      // Services still take the query and form body DTOs the controller would have collected
+      this.controllerGenerator.collectInputSchemas(spec.paths, spec);
     }
 
-    // Generate DTOs including inline response schemas
-    if (this.config.generateDtos && (spec.components?.schemas || this.controllerGenerator.getInlineResponseSchemas().size > 0)) {
+    // Generate DTOs including inline response, query parameter and form body schemas
+    if (this.config.generateDtos && (
+      spec.components?.schemas
+      || this.controllerGenerator.getInlineResponseSchemas().size > 0
+      || this.controllerGenerator.getQueryParameterSchemas().size > 0
+      || this.controllerGenerator.getFormBodySchemas().size > 0
+    )) {
       await this.generateDtos(resourceName, spec, outputDir);
     }
 
@@ -101,6 +123,11 @@ export class GeneratorOrchestrator {
     outputDir: string
   ): Promise<void> {
     const inlineResponseSchemas = this.controllerGenerator.getInlineResponseSchemas();
+    // Form fields arrive as strings just like query parameters
+    const stringInputSchemas = new Map([
+      ...this.controllerGenerator.getQueryParameterSchemas(),
+      ...this.controllerGenerator.getFormBodySchemas()
+    ]);
 
     const {
       sharedDtoContent,
@@ -108,6 +135,7 @@ export class GeneratorOrchestrator {
     } = await this.dtoGenerator.generateAllDtosSplit(
       spec,
       inlineResponseSchemas,
+      stringInputSchemas
     );
 
     if (sharedDtoContent) {
@@ -1,3 +1,25 @@
+export interface FormatValidator {
+  // Decorator name, e.g. 'IsPhoneNumber'
+  name: string;
+  // Module the decorator is imported from, defaults to 'class-validator'
+  module?: string;
+  // Positional arguments before the validation options, e.g. ["'US'"] or ['{}']
+  args?: string[];
+}
+
+export interface FormatMapping {
+  // TypeScript type of the property, defaults to 'string'
+  type?: string;
+  validators: FormatValidator[];
+}
+
+export interface GuardMapping {
+  // Guard class name, e.g. 'JwtAuthGuard'
+  name: string;
+  // Module the guard is imported from, relative paths start at the generated controller
+  module: string;
+}
+
 export interface GeneratorConfig {
   specsDir: string;
   outputDir: string;
@@ -13,10 +35,31 @@ export interface GeneratorConfig {
     [key: string]: string;
   };
   
+  // Extra or overriding string format mappings, merged over the built-in registry
+  formats?: {
+    [format: string]: FormatMapping;
+  };
+  
+  // Guards applied with @UseGuards to operations requiring a security scheme, keyed by scheme name
+  guards?: {
+    [securityScheme: string]: GuardMapping;
+  };
+  
   generatorOptions?: {
+    // Receive the query parameters of each operation as one validated <OperationId>QueryDto
     useSingleRequestParameter?: boolean;
     includeErrorTypesInReturnType?: boolean;
+    // Generate TS enums ('enum') or `as const` objects with a matching union type ('const')
+    enumStyle?: 'enum' | 'const';
     additionalProperties?: Record<string, any>;
+    // Preferred request body media types when an operation accepts several, most preferred first
+    requestMediaTypes?: string[];
+    // Send Deprecation and Sunset (from x-sunset) response headers for deprecated operations
+    deprecationHeaders?: boolean;
+    // Let abstract methods return { body, headers } for operations declaring response headers
+    responseHeaders?: boolean;
+    // Let abstract methods return { status, body } results for any declared response status
+    statusResults?: boolean;
   };
 }
 
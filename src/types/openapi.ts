@@ -8,7 +8,11 @@ export interface OpenAPISpec {
     schemas?: {
       [name: string]: SchemaObject;
     };
+    securitySchemes?: {
+      [name: string]: SecurityScheme;
+    };
   };
+  security?: SecurityRequirement[];
 }
 
 export interface PathItem {
@@ -17,6 +21,7 @@ export interface PathItem {
   put?: Operation;
   patch?: Operation;
   delete?: Operation;
+  parameters?: Parameter[];
   [key: string]: any;
 }
 
@@ -30,6 +35,7 @@ export interface Operation {
   responses: {
     [statusCode: string]: Response;
   };
+  security?: SecurityRequirement[];
   [key: string]: any;
 }
 
@@ -38,6 +44,24 @@ export interface Parameter {
   in: 'query' | 'path' | 'header' | 'cookie';
   required?: boolean;
   schema: SchemaObject;
+  style?: string;
+  explode?: boolean;
+}
+
+export interface SecurityScheme {
+  type: 'apiKey' | 'http' | 'oauth2' | 'openIdConnect' | 'mutualTLS';
+  description?: string;
+  name?: string;
+  in?: 'query' | 'header' | 'cookie';
+  scheme?: string;
+  bearerFormat?: string;
+  flows?: any;
+  openIdConnectUrl?: string;
+}
+
+// Scheme names mapped to the scopes they require
+export interface SecurityRequirement {
+  [name: string]: string[];
 }
 
 export interface RequestBody {
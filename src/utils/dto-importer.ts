@@ -1,4 +1,5 @@
 import { OpenAPISpec } from '../types/openapi';
+import { SchemaUtils } from './schema-utils';
 
 
 export class DtoImporter {
@@ -12,6 +13,58 @@ export class DtoImporter {
     return schema && schema[DtoImporter.SHARED_SCHEMA_MARKER] === true;
   }
 
+  // Request bodies of schemas with readOnly/writeOnly properties use a separate write model
+  static getRequestDtoName(schemaName: string): string {
+    return `${schemaName}CreateDto`;
+  }
+
+  // Query parameters of an operation are grouped into one DTO when useSingleRequestParameter is enabled
+  static getQueryDtoName(methodName: string): string {
+    return `${methodName.charAt(0).toUpperCase()}${methodName.slice(1)}QueryDto`;
+  }
+
+  // Inline object query parameters (deepObject filters and the like) get their own nested DTO
+  static getQueryObjectDtoName(methodName: string, parameterName: string): string {
+    const baseName = this.getQueryDtoName(methodName).replace(/Dto$/, '');
+    const pascalName = parameterName.replace(/(?:^|[^a-zA-Z0-9]+)([a-zA-Z0-9])/g, (_, char) => char.toUpperCase());
+    return `${baseName}${pascalName}Dto`;
+  }
+
+  // The non-file fields of a multipart/form-data body
+  static getFormBodyDtoName(methodName: string): string {
+    return `${methodName.charAt(0).toUpperCase()}${methodName.slice(1)}BodyDto`;
+  }
+
+  /**
+   * DTO type of a deepObject or exploded form object query parameter: the component DTO when the
+   * schema is a component, otherwise the name from getQueryObjectDtoName.
+   */
+  static getQueryObjectDtoType(param: any, methodName: string, spec: OpenAPISpec): string | undefined {
+    const schema = SchemaUtils.withoutNull(param.schema || {});
+    const isObjectStyle = param.style === 'deepObject' || SchemaUtils.isFormExplodedObject(param);
+    if (schema.type !== 'object' || !schema.properties || !isObjectStyle) {
+      return undefined;
+    }
+
+    // Dereferenced specs reuse the component schema object
+    const componentName = Object.entries(spec.components?.schemas || {})
+      .find(([_, componentSchema]) => componentSchema === schema)?.[0];
+    return componentName ? `${componentName}Dto` : this.getQueryObjectDtoName(methodName, param.name);
+  }
+
+  static getRequestBodyDtoType(type: string, bodySchema: any, spec?: OpenAPISpec): string {
+    const schema = bodySchema?.type === 'array' ? bodySchema.items : bodySchema;
+    const resolvedSchema = schema?.$ref
+      ? spec?.components?.schemas?.[schema.$ref.split('/').pop()]
+      : schema;
+    if (!SchemaUtils.hasAccessModeProperties(resolvedSchema, spec?.components?.schemas)) {
+      return type;
+    }
+
+    const match = type.match(/^(\w+)Dto(\[\])?$/);
+    return match ? `${this.getRequestDtoName(match[1])}${match[2] || ''}` : type;
+  }
+
   static resolveDtoImports(usedDtos: Set<string>,spec: OpenAPISpec): { localDtos: string[]; sharedDtosUsed: string[] } {
     const sharedDtos = this.getSharedDtoNames(spec);
     const localDtos: string[] = [];
@@ -80,6 +133,8 @@ export class DtoImporter {
     const schemas = spec.components?.schemas || {};
     return Object.entries(schemas)
       .filter(([_, schema]) => this.isSharedSchema(schema))
-      .map(([name]) => `${name}Dto`);
+      .flatMap(([name, schema]) => SchemaUtils.hasAccessModeProperties(schema, spec.components?.schemas)
+        ? [`${name}Dto`, this.getRequestDtoName(name)]
+        : [`${name}Dto`]);
   }
 }
\ No newline at end of file
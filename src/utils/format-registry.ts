@@ -0,0 +1,48 @@
+import { FormatMapping, FormatValidator } from '../types/config';
+
+export class FormatRegistry {
+
+  static readonly DEFAULT_MODULE = 'class-validator';
+
+  private static readonly BUILT_IN_FORMATS: { [format: string]: FormatMapping } = {
+    'email': { validators: [{ name: 'IsEmail', args: ['{}'] }] },
+    'uuid': { validators: [{ name: 'IsUUID', args: ['undefined'] }] },
+    // Date-only values stay ISO strings; IsDate would only accept Date instances
+    'date': { validators: [{ name: 'IsDateString', args: ['{}'] }] },
+    'date-time': { validators: [{ name: 'IsDateString', args: ['{}'] }] },
+    'uri': { validators: [{ name: 'IsUrl', args: ['{}'] }] },
+    'url': { validators: [{ name: 'IsUrl', args: ['{}'] }] },
+    'hostname': { validators: [{ name: 'IsFQDN', args: ['{}'] }] },
+    'ipv4': { validators: [{ name: 'IsIP', args: ['4'] }] },
+    'ipv6': { validators: [{ name: 'IsIP', args: ['6'] }] },
+    'byte': { validators: [{ name: 'IsBase64', args: ['{}'] }] },
+    'phone': { validators: [{ name: 'IsPhoneNumber', args: ['undefined'] }] },
+    'iso-country': { validators: [{ name: 'IsISO31661Alpha2' }] }
+  };
+
+  private readonly formats: { [format: string]: FormatMapping };
+
+  constructor(customFormats?: { [format: string]: FormatMapping }) {
+    this.formats = { ...FormatRegistry.BUILT_IN_FORMATS, ...(customFormats || {}) };
+  }
+
+  get(format?: string): FormatMapping | undefined {
+    return format ? this.formats[format] : undefined;
+  }
+
+  /**
+   * Renders a format validator, appending `{ each: true }` for array items.
+   * Trailing placeholder arguments are dropped when no validation options follow.
+   */
+  static renderValidator(validator: FormatValidator, each: boolean = false): string {
+    const args = [...(validator.args || [])];
+    if (each) {
+      args.push('{ each: true }');
+    } else {
+      while (args.length > 0 && ['{}', 'undefined'].includes(args[args.length - 1])) {
+        args.pop();
+      }
+    }
+    return `@${validator.name}(${args.join(', ')})`;
+  }
+}
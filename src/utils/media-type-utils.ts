@@ -0,0 +1,45 @@
+export type BodyKind = 'json' | 'multipart' | 'form' | 'text' | 'binary';
+
+export class MediaTypeUtils {
+
+  // Request body media types in the order they are preferred when an operation lists several
+  static readonly DEFAULT_REQUEST_MEDIA_TYPES = [
+    'application/json',
+    'multipart/form-data',
+    'application/x-www-form-urlencoded',
+    'text/plain',
+    'application/xml',
+    'application/octet-stream'
+  ];
+
+  /**
+   * Picks the media type of a request body to generate code for: the first preferred one the body
+   * lists, then any JSON media type, then the first one listed.
+   */
+  static selectMediaType(
+    content: { [mediaType: string]: any } | undefined,
+    preferences: string[] = MediaTypeUtils.DEFAULT_REQUEST_MEDIA_TYPES
+  ): string | undefined {
+    const mediaTypes = Object.keys(content || {});
+    return preferences.find(mediaType => mediaTypes.includes(mediaType))
+      ?? mediaTypes.find(mediaType => MediaTypeUtils.getBodyKind(mediaType) === 'json')
+      ?? mediaTypes[0];
+  }
+
+  static getBodyKind(mediaType: string): BodyKind {
+    const type = mediaType.split(';')[0].trim().toLowerCase();
+    if (type === 'application/json' || type.endsWith('+json')) {
+      return 'json';
+    }
+    if (type.startsWith('multipart/')) {
+      return 'multipart';
+    }
+    if (type === 'application/x-www-form-urlencoded') {
+      return 'form';
+    }
+    if (type.startsWith('text/') || type.endsWith('/xml') || type.endsWith('+xml')) {
+      return 'text';
+    }
+    return 'binary';
+  }
+}
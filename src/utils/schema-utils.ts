@@ -0,0 +1,205 @@
+export class SchemaUtils {
+
+  /**
+   * Whether a schema accepts null, either through OpenAPI 3.0 `nullable: true`
+   * or an OpenAPI 3.1 type array such as `type: ['string', 'null']`.
+   */
+  static isNullable(schema: any): boolean {
+    if (!schema) {
+      return false;
+    }
+    if (schema.nullable === true) {
+      return true;
+    }
+    return Array.isArray(schema.type) && schema.type.includes('null');
+  }
+
+  /**
+   * Returns a copy of the schema with null removed from its type and enum,
+   * so it can be mapped like a regular OpenAPI 3.0 schema.
+   */
+  static withoutNull(schema: any): any {
+    if (!schema || (!Array.isArray(schema.type) && schema.nullable === undefined && !SchemaUtils.hasNullEnumValue(schema))) {
+      return schema;
+    }
+
+    const { nullable, ...rest } = schema;
+    const normalized: any = { ...rest };
+
+    if (Array.isArray(schema.type)) {
+      const types = schema.type.filter((type: string) => type !== 'null');
+      if (types.length === 1) {
+        normalized.type = types[0];
+      } else if (types.length === 0) {
+        delete normalized.type;
+      } else {
+        normalized.type = types;
+      }
+    }
+
+    if (SchemaUtils.hasNullEnumValue(schema)) {
+      normalized.enum = schema.enum.filter((value: any) => value !== null);
+    }
+
+    return normalized;
+  }
+
+  /**
+   * Adds null to the TypeScript type of a nullable schema, unless the type is any already.
+   */
+  static withNullType(type: string): string {
+    return type === 'any' ? type : `${type} | null`;
+  }
+
+  static getUnionKind(schema: any): 'oneOf' | 'anyOf' | undefined {
+    if (Array.isArray(schema?.oneOf)) return 'oneOf';
+    if (Array.isArray(schema?.anyOf)) return 'anyOf';
+    return undefined;
+  }
+
+  /**
+   * TypeScript union of the types of the oneOf/anyOf variants, or any when one of them is any.
+   * Resolved specs lose the $ref of each variant, so `getType` also receives the $ref of the
+   * matching variant of the original spec.
+   */
+  static getUnionType(schema: any, originalSchema: any, getType: (variant: any, originalRef?: string) => string): string {
+    const variants: any[] = schema.oneOf || schema.anyOf;
+    const originalVariants: any[] = originalSchema?.oneOf || originalSchema?.anyOf || [];
+
+    const types = variants.map((variant, index) => getType(variant, originalVariants[index]?.$ref));
+    if (types.includes('any')) {
+      return 'any';
+    }
+    return Array.from(new Set(types)).join(' | ');
+  }
+
+  /**
+   * Whether an object schema, or any schema it nests or references, declares readOnly or writeOnly
+   * properties, so request bodies need a write model of it. $refs are looked up in the given component
+   * schemas.
+   */
+  static hasAccessModeProperties(
+    schema: any,
+    componentSchemas: { [name: string]: any } = {},
+    visited: Set<any> = new Set()
+  ): boolean {
+    if (schema?.$ref) {
+      schema = componentSchemas[schema.$ref.split('/').pop()];
+    }
+    if (!schema || typeof schema !== 'object' || visited.has(schema)) {
+      return false;
+    }
+    visited.add(schema);
+
+    const properties = Object.values(schema.properties || {}) as any[];
+    if (properties.some(property => property?.readOnly === true || property?.writeOnly === true)) {
+      return true;
+    }
+    return SchemaUtils.getSubschemas(schema)
+      .some(subschema => SchemaUtils.hasAccessModeProperties(subschema, componentSchemas, visited));
+  }
+
+  /**
+   * The schemas an object schema is built from or holds: its properties, array items, map values
+   * and allOf, oneOf and anyOf parts.
+   */
+  static getSubschemas(schema: any): any[] {
+    return [
+      ...Object.values(schema.properties || {}),
+      schema.items,
+      typeof schema.additionalProperties === 'object' ? schema.additionalProperties : undefined,
+      ...(schema.allOf || []),
+      ...(schema.oneOf || []),
+      ...(schema.anyOf || [])
+    ].filter(subschema => subschema && typeof subschema === 'object');
+  }
+
+  /**
+   * A valid property or parameter name for a query or form key, camelCasing keys such as sort-by or
+   * page[size].
+   */
+  static toPropertyName(key: string): string {
+    if (/^[A-Za-z_$][\w$]*$/.test(key)) {
+      return key;
+    }
+    const name = key.replace(/[^\w$]+(.)?/g, (_, char: string | undefined) => char ? char.toUpperCase() : '');
+    return /^[A-Za-z_$]/.test(name) ? name : `_${name}`;
+  }
+
+  /**
+   * Returns a copy of an object schema without the properties marked with the given access mode.
+   */
+  static withoutAccessMode(schema: any, accessMode: 'readOnly' | 'writeOnly'): any {
+    if (!schema?.properties) {
+      return schema;
+    }
+
+    const properties: { [name: string]: any } = {};
+    for (const [name, property] of Object.entries(schema.properties)) {
+      if ((property as any)?.[accessMode] !== true) {
+        properties[name] = property;
+      }
+    }
+
+    return {
+      ...schema,
+      properties,
+      required: (schema.required || []).filter((name: string) => name in properties)
+    };
+  }
+
+  /**
+   * Delimiter of an array query parameter serialized into a single value, or undefined when
+   * each item is sent under its own key (the default `form` style with `explode: true`).
+   */
+  static getQueryArrayDelimiter(style: string = 'form', explode?: boolean): string | undefined {
+    if (explode ?? style === 'form') {
+      return undefined;
+    }
+    switch (style) {
+      case 'spaceDelimited':
+        return ' ';
+      case 'pipeDelimited':
+        return '|';
+      default:
+        return ',';
+    }
+  }
+
+  /**
+   * Whether a query parameter is an object sent as top-level keys (`form` style, exploded by default).
+   */
+  static isFormExplodedObject(param: any): boolean {
+    const schema = SchemaUtils.withoutNull(param?.schema || {});
+    return schema.type === 'object' && !!schema.properties
+      && (param.style || 'form') === 'form' && param.explode !== false;
+  }
+
+  /**
+   * Parameters declared on a path item followed by the other parameters of one of its operations.
+   * An operation parameter replaces the path-level parameter with the same name and location.
+   */
+  static mergeParameters(pathParameters: any[] = [], operationParameters: any[] = []): any[] {
+    const key = (param: any) => `${param.in}:${param.name}`;
+    const overrides = new Map(operationParameters.map(param => [key(param), param]));
+    const merged = pathParameters.map(param => overrides.get(key(param)) || param);
+    return [...merged, ...operationParameters.filter(param => !merged.includes(param))];
+  }
+
+  /**
+   * Whether a multipart/form-data field is an uploaded file (`format: binary`, or a `contentMediaType`
+   * without `contentEncoding`), or an array of uploaded files.
+   */
+  static isFileSchema(schema: any): boolean {
+    const fieldSchema = SchemaUtils.withoutNull(schema || {});
+    if (fieldSchema.type === 'array') {
+      return SchemaUtils.isFileSchema(fieldSchema.items);
+    }
+    return fieldSchema.type === 'string'
+      && (fieldSchema.format === 'binary' || (!!fieldSchema.contentMediaType && !fieldSchema.contentEncoding));
+  }
+
+  private static hasNullEnumValue(schema: any): boolean {
+    return Array.isArray(schema.enum) && schema.enum.includes(null);
+  }
+}
@@ -81,7 +81,7 @@ describe('ControllerGenerator', () => {
 
             expect(result).toContain('@Get(\'/users/:userId\')');
             expect(result).toContain('getUserById(');
-            expect(result).toContain('@Param(\'userId\') userId: string');
+            expect(result).toContain('@Param(\'userId\', ParseUUIDPipe) userId: string');
 
             // API documentation
             expect(result).toContain('@ApiParam({ name: \'userId\', type: String })');
@@ -94,7 +94,7 @@ describe('ControllerGenerator', () => {
 
             expect(result).toContain('@Put(\'/users/:userId\')');
             expect(result).toContain('updateUser(');
-            expect(result).toContain('@Param(\'userId\') userId: string');
+            expect(result).toContain('@Param(\'userId\', ParseUUIDPipe) userId: string');
             expect(result).toContain('@Body() body: UpdateUserRequestDto');
 
             // Response decorators with types
@@ -108,7 +108,7 @@ describe('ControllerGenerator', () => {
 
             expect(result).toContain('@Delete(\'/users/:userId\')');
             expect(result).toContain('deleteUser(');
-            expect(result).toContain('@Param(\'userId\') userId: string');
+            expect(result).toContain('@Param(\'userId\', ParseUUIDPipe) userId: string');
 
             // Should include HttpCode decorator for 204 response
             expect(result).toContain('@HttpCode(204)');
@@ -121,7 +121,7 @@ describe('ControllerGenerator', () => {
 
             expect(result).toContain('@Patch(\'/users/:userId/profile\')');
             expect(result).toContain('updateUserProfile(');
-            expect(result).toContain('@Param(\'userId\') userId: string');
+            expect(result).toContain('@Param(\'userId\', ParseUUIDPipe) userId: string');
             expect(result).toContain('@Body() body: ProfileUpdateRequestDto');
 
             // Response type with proper DTO
@@ -224,7 +224,7 @@ describe('ControllerGenerator', () => {
             const result = await controllerGenerator.generateController('user', testSpec.paths, testSpec);
 
             // Path parameters
-            expect(result).toContain('@Param(\'userId\') userId: string');
+            expect(result).toContain('@Param(\'userId\', ParseUUIDPipe) userId: string');
 
             // Query parameters with different types (optional)
             expect(result).toContain('@Query(\'page\') page?: number');
@@ -429,6 +429,706 @@ describe('ControllerGenerator', () => {
         });
     });
 
+    describe('oneOf/anyOf bodies and responses', () => {
+        let polymorphicSpec: OpenAPISpec;
+
+        beforeEach(async () => {
+            const polymorphicSpecPath = path.join(__dirname, '../fixtures/polymorphic.openapi.yaml');
+            polymorphicSpec = await specParser.parseSpec(polymorphicSpecPath);
+        });
+
+        it('should type oneOf request bodies as unions of DTOs', async () => {
+            const result = await controllerGenerator.generateController('polymorphic', polymorphicSpec.paths, polymorphicSpec);
+
+            expect(result).toContain('@Body() body: CardPaymentDto | BankTransferPaymentDto');
+            expect(result).toContain('@ApiBody({ schema: { oneOf: [{ $ref: getSchemaPath(CardPaymentDto) }, { $ref: getSchemaPath(BankTransferPaymentDto) }] } })');
+        });
+
+        it('should type anyOf responses as unions of DTOs', async () => {
+            const result = await controllerGenerator.generateController('polymorphic', polymorphicSpec.paths, polymorphicSpec);
+
+            expect(result).toContain('): Promise<EmailChannelDto | SmsChannelDto>');
+            expect(result).toContain('@ApiResponse({ status: 200, schema: { anyOf: [{ $ref: getSchemaPath(EmailChannelDto) }, { $ref: getSchemaPath(SmsChannelDto) }] } })');
+        });
+
+        it('should register union DTOs and import them', async () => {
+            const result = await controllerGenerator.generateController('polymorphic', polymorphicSpec.paths, polymorphicSpec);
+
+            expect(result).toContain('ApiHeader, ApiBody, getSchemaPath, ApiExtraModels } from \'@nestjs/swagger\'');
+            expect(result).toContain('@ApiExtraModels(CardPaymentDto, BankTransferPaymentDto, EmailChannelDto, SmsChannelDto)');
+            expect(result).toContain("import { CardPaymentDto, BankTransferPaymentDto, PaymentDto, EmailChannelDto, SmsChannelDto } from './polymorphic.dto'");
+        });
+
+        it('should handle unions of $ref and primitive schemas', async () => {
+            const paths = {
+                '/lookups': {
+                    post: {
+                        operationId: 'lookup',
+                        requestBody: {
+                            content: {
+                                'application/json': {
+                                    schema: {oneOf: [{$ref: '#/components/schemas/User'}, {type: 'string'}]}
+                                }
+                            }
+                        },
+                        responses: {'204': {description: 'Done'}}
+                    }
+                }
+            };
+
+            const result = await controllerGenerator.generateController('lookup', paths as any, testSpec);
+
+            expect(result).toContain('@Body() body: UserDto | string');
+            expect(result).toContain("@ApiBody({ schema: { oneOf: [{ $ref: getSchemaPath(UserDto) }, { type: 'string' }] } })");
+        });
+
+        it('should reference only DTO union members by schema path', async () => {
+            const paths = {
+                '/lookups': {
+                    get: {
+                        operationId: 'lookup',
+                        responses: {
+                            '200': {
+                                description: 'Found',
+                                content: {
+                                    'application/json': {
+                                        schema: {
+                                            oneOf: [
+                                                {$ref: '#/components/schemas/User'},
+                                                {type: 'array', items: {type: 'object', properties: {id: {type: 'string'}}}}
+                                            ]
+                                        }
+                                    }
+                                }
+                            }
+                        }
+                    }
+                }
+            };
+
+            const result = await controllerGenerator.generateController('lookup', paths as any, testSpec);
+
+            expect(result).toContain('): Promise<UserDto | any[]>');
+            expect(result).toContain("schema: { oneOf: [{ $ref: getSchemaPath(UserDto) }, { type: 'array', items: {} }] }");
+            expect(result).toContain('@ApiExtraModels(UserDto)');
+            expect(result).not.toContain('getSchemaPath(any)');
+        });
+    });
+
+    describe('nullable parameters and responses', () => {
+        let nullableSpec: OpenAPISpec;
+
+        beforeEach(async () => {
+            const nullableSpecPath = path.join(__dirname, '../fixtures/nullable.openapi.yaml');
+            nullableSpec = await specParser.parseSpec(nullableSpecPath);
+        });
+
+        it('should type nullable query and header parameters with null', async () => {
+            const result = await controllerGenerator.generateController('nullable', nullableSpec.paths, nullableSpec);
+
+            expect(result).toContain("@Query('parentId') parentId?: string | null");
+            expect(result).toContain("@Headers('x-region') xRegion?: string | null");
+            expect(result).toContain("@ApiQuery({ name: 'parentId', type: String, required: false })");
+            expect(result).toContain("schema: { type: 'string', nullable: true }");
+        });
+
+        it('should type responses with a null branch as nullable', async () => {
+            const result = await controllerGenerator.generateController('nullable', nullableSpec.paths, nullableSpec);
+
+            expect(result).toContain('): Promise<ManagerDto | null>');
+            expect(result).toContain('@ApiResponse({ status: 200, schema: { allOf: [{ $ref: getSchemaPath(ManagerDto) }], nullable: true } })');
+            expect(result).toContain("import { AccountDto, ManagerDto } from './nullable.dto'");
+        });
+    });
+
+    describe('readOnly and writeOnly properties', () => {
+        it('should use the request DTO for bodies with access mode properties', async () => {
+            const accessModeSpec = await specParser.parseSpec(path.join(__dirname, '../fixtures/access-mode.openapi.yaml'));
+            const result = await controllerGenerator.generateController('user', accessModeSpec.paths, accessModeSpec);
+
+            expect(result).toContain('@Body() body: UserCreateDto');
+            expect(result).toContain('): Promise<UserDto>');
+            expect(result).toContain("import { UserDto, UserCreateDto, SignUpBodyDto, TeamCreateDto, TeamDto, AdminUserCreateDto, AuditEntryDto } from './user.dto'");
+            expect(result).toContain('@Body() body: TeamCreateDto');
+            expect(result).toContain('@Body() body: AdminUserCreateDto');
+        });
+    });
+
+    describe('path and header parameter pipes', () => {
+        let paramsSpec: OpenAPISpec;
+
+        beforeEach(async () => {
+            paramsSpec = await specParser.parseSpec(path.join(__dirname, '../fixtures/params.openapi.yaml'));
+        });
+
+        it('should convert path parameters with built-in pipes', async () => {
+            const result = await controllerGenerator.generateController('params', paramsSpec.paths, paramsSpec);
+
+            expect(result).toContain("@Param('widgetId', ParseUUIDPipe) widgetId: string");
+            expect(result).toContain("@Param('version', ParseIntPipe) version: number");
+            expect(result).toContain("@Param('kind', new ParseEnumPipe(['gadget', 'gizmo'])) kind: string");
+            expect(result).toContain("@Param('slug') slug: string");
+            expect(result).toContain('HttpCode, ParseUUIDPipe, ParseEnumPipe, ParseIntPipe, ParseBoolPipe, ParseArrayPipe,');
+        });
+
+        it('should convert header parameters through a pipe-aware header decorator', async () => {
+            const result = await controllerGenerator.generateController('params', paramsSpec.paths, paramsSpec);
+
+            expect(result).toContain('const RequestHeader = createParamDecorator(');
+            expect(result).toContain("@RequestHeader('X-Dry-Run', ParseBoolPipe) xDryRun: boolean");
+            expect(result).toContain("@RequestHeader('X-Page-Size', new ParseIntPipe({ optional: true })) xPageSize?: number");
+            expect(result).toContain("@RequestHeader('X-Tags', new ParseArrayPipe({ items: String, separator: ',', optional: true })) xTags?: string[]");
+            expect(result).toContain("@Headers('X-Trace-Id') xTraceId?: string");
+            expect(result).toContain("@ApiHeader({ name: 'X-Page-Size', description: 'X-Page-Size header parameter', required: false, schema: { type: 'integer' } })");
+        });
+
+        it('should not declare the header decorator when no header needs a pipe', async () => {
+            const result = await controllerGenerator.generateController('user', testSpec.paths, testSpec);
+
+            expect(result).not.toContain('RequestHeader');
+            expect(result).not.toContain('createParamDecorator');
+        });
+    });
+
+    describe('query parameter DTOs', () => {
+        let querySpec: OpenAPISpec;
+
+        beforeEach(async () => {
+            querySpec = await specParser.parseSpec(path.join(__dirname, '../fixtures/query.openapi.yaml'));
+        });
+
+        it('should group query parameters into a single DTO parameter', async () => {
+            const generator = new ControllerGenerator(undefined, false, true, { useSingleRequestParameter: true });
+            const result = await generator.generateController('query', querySpec.paths, querySpec);
+
+            expect(result).toContain("@Param('storeId') storeId: string,\n        @Query() query: ListOrdersQueryDto");
+            expect(result).toContain('return this.listOrders(storeId, query);');
+            expect(result).not.toContain('@ApiQuery(');
+            expect(result).toContain("import { OrderDto, ListOrdersQueryDto } from './query.dto'");
+            expect(generator.getQueryParameterSchemas().get('ListOrdersQueryDto').required).toEqual(['search']);
+            expect(generator.getQueryParameterSchemas().has('GetOrderQueryDto')).toBe(false);
+        });
+
+        it('should keep individual query parameters when DTO generation is disabled', async () => {
+            const generator = new ControllerGenerator(undefined, false, false, { useSingleRequestParameter: true });
+            const result = await generator.generateController('query', querySpec.paths, querySpec);
+
+            expect(result).toContain("@Query('search') search: string");
+            expect(result).not.toContain('ListOrdersQueryDto');
+            expect(generator.getQueryParameterSchemas().size).toBe(0);
+        });
+
+        it('should keep individual query parameters by default', async () => {
+            const result = await controllerGenerator.generateController('query', querySpec.paths, querySpec);
+
+            expect(result).toContain("@Query('search') search: string");
+            expect(result).toContain("@Query('page[size]') pageSize?: number,\n        @Query('sort-by') sortBy?: string");
+            expect(result).not.toContain('ListOrdersQueryDto');
+            expect(controllerGenerator.getQueryParameterSchemas().size).toBe(0);
+        });
+    });
+
+    describe('query parameter serialization', () => {
+        let styleSpec: OpenAPISpec;
+
+        beforeEach(async () => {
+            styleSpec = await specParser.parseSpec(path.join(__dirname, '../fixtures/query-style.openapi.yaml'));
+        });
+
+        it('should parse array query parameters with the separator of their style', async () => {
+            const result = await controllerGenerator.generateController('query-style', styleSpec.paths, styleSpec);
+
+            expect(result).toContain("@Query('ids', new ParseArrayPipe({ items: Number, separator: ',' })) ids: number[]");
+            expect(result).toContain("@Query('labels', new ParseArrayPipe({ items: String, separator: '|', optional: true })) labels?: string[]");
+            expect(result).toContain("@ApiQuery({ name: 'tags', type: String, required: false, isArray: true, style: 'form', explode: true })");
+            expect(result).toContain("@ApiQuery({ name: 'labels', type: String, required: false, isArray: true, style: 'pipeDelimited', explode: false })");
+        });
+
+        it('should type object query parameters as DTOs', async () => {
+            const result = await controllerGenerator.generateController('query-style', styleSpec.paths, styleSpec);
+
+            expect(result).toContain("@Query('filter') filter?: ListTicketsQueryFilterDto");
+            expect(result).toContain("@Query('sort') sort?: SortOrderDto");
+            expect(result).toContain('@Query() page?: ListTicketsQueryPageDto');
+            expect(result).toContain("@ApiQuery({ name: 'filter', type: ListTicketsQueryFilterDto, required: false, style: 'deepObject', explode: true })");
+            expect(result).toContain('SortOrderDto } from');
+            expect(Array.from(controllerGenerator.getQueryParameterSchemas().keys()))
+                .toEqual(['ListTicketsQueryFilterDto', 'ListTicketsQueryPageDto']);
+        });
+
+        it('should spread exploded form objects into the query DTO', async () => {
+            const generator = new ControllerGenerator(undefined, false, true, { useSingleRequestParameter: true });
+            await generator.generateController('query-style', styleSpec.paths, styleSpec);
+            const querySchema = generator.getQueryParameterSchemas().get('ListTicketsQueryDto');
+
+            expect(Object.keys(querySchema.properties)).toEqual(['ids', 'tags', 'labels', 'filter', 'sort', 'offset', 'limit', 'page-token']);
+            expect(querySchema.required).toEqual(['ids']);
+            expect(querySchema.properties.labels.style).toBe('pipeDelimited');
+        });
+    });
+
+    describe('path-level parameters', () => {
+        let pathSpec: OpenAPISpec;
+
+        beforeEach(async () => {
+            pathSpec = await specParser.parseSpec(path.join(__dirname, '../fixtures/path-parameters.openapi.yaml'));
+        });
+
+        it('should pass path item parameters to every operation', async () => {
+            const result = await controllerGenerator.generateController('path-parameters', pathSpec.paths, pathSpec);
+
+            expect(result).toContain("@Param('tenantId') tenantId: string,\n        @Query('limit') limit?: number");
+            expect(result).toContain("@Param('projectId') projectId: string,\n        @Param('tenantId') tenantId: string,\n        @Headers('X-Request-Id') xRequestId?: string");
+            expect(result).toContain('return this.deleteProject(projectId, tenantId, xRequestId);');
+        });
+
+        it('should let operation parameters override path item parameters', async () => {
+            const result = await controllerGenerator.generateController('path-parameters', pathSpec.paths, pathSpec);
+
+            expect(result).toContain("@Param('projectId', ParseIntPipe) projectId: number");
+            expect(result).toContain("@ApiParam({ name: 'projectId', type: Number })");
+            expect(result.match(/@Param\('projectId'/g)).toHaveLength(2);
+        });
+    });
+
+    describe('cookie parameters', () => {
+        let cookieSpec: OpenAPISpec;
+
+        beforeEach(async () => {
+            cookieSpec = await specParser.parseSpec(path.join(__dirname, '../fixtures/cookies.openapi.yaml'));
+        });
+
+        it('should read cookies through a generated Cookies decorator', async () => {
+            const result = await controllerGenerator.generateController('cookies', cookieSpec.paths, cookieSpec);
+
+            expect(result).toContain('const Cookies = createParamDecorator((name: string, context: ExecutionContext) =>\n    context.switchToHttp().getRequest().cookies?.[name]);');
+            expect(result).toContain("@Cookies('session-id') sessionId: string");
+            expect(result).toContain("@Cookies('cartVersion', new ParseIntPipe({ optional: true })) cartVersion?: number");
+            expect(result).not.toContain('@Cookie(');
+            expect(result).toContain('return this.getCart(sessionId, xPage, cartVersion);');
+        });
+
+        it('should document cookies of API key schemes as cookie auth', async () => {
+            const result = await controllerGenerator.generateController('cookies', cookieSpec.paths, cookieSpec);
+
+            expect(result).toContain("@ApiCookieAuth('sessionAuth')");
+            expect(result).not.toContain("@ApiCookieAuth('session-id')");
+            expect(result).not.toContain("@ApiCookieAuth('cartVersion')");
+            expect(result).toContain('ApiHeader, ApiCookieAuth }');
+        });
+
+        it('should document other cookies as cookie parameters', async () => {
+            const result = await controllerGenerator.generateController('cookies', cookieSpec.paths, cookieSpec);
+
+            expect(result).toContain("@ApiCookie({ name: 'cartVersion', required: false, description: 'Version of the cart the client has seen', schema: { type: 'integer' } })");
+            expect(result).toContain("function ApiCookie(options: { name: string, required: boolean, description?: string, schema?: { type?: string, format?: string, pattern?: string, nullable?: boolean }, deprecated?: boolean }): MethodDecorator {\n    const parameter = { ...options, in: 'cookie' };\n    return ApiParam(parameter);\n}");
+        });
+
+        it('should leave cookie auth to the security requirements of the operation', async () => {
+            const securedSpec = {...cookieSpec, security: [{sessionAuth: []}]};
+            const result = await controllerGenerator.generateController('cookies', securedSpec.paths, securedSpec);
+
+            expect(result).toContain("@ApiSecurity('sessionAuth')");
+            expect(result).not.toContain('@ApiCookieAuth(');
+        });
+
+        it('should not declare the Cookies decorator without cookie parameters', async () => {
+            const result = await controllerGenerator.generateController('user', testSpec.paths, testSpec);
+
+            expect(result).not.toContain('const Cookies');
+            expect(result).not.toContain('function ApiCookie(');
+            expect(result).not.toContain('createParamDecorator');
+        });
+    });
+
+    describe('multipart file uploads', () => {
+        let uploadSpec: OpenAPISpec;
+
+        beforeEach(async () => {
+            uploadSpec = await specParser.parseSpec(path.join(__dirname, '../fixtures/uploads.openapi.yaml'));
+        });
+
+        it('should receive a single file with validators from its schema', async () => {
+            const result = await controllerGenerator.generateController('uploads', uploadSpec.paths, uploadSpec);
+
+            expect(result).toContain("@UseInterceptors(FileInterceptor('avatar'))");
+            expect(result).toContain("@UploadedFile(new ParseFilePipe({ validators: [new MaxFileSizeValidator({ maxSize: 1048576 }), new FileTypeValidator({ fileType: 'image/png' })] })) avatar: Express.Multer.File");
+            expect(result).toContain('@Body() body: UploadAvatarBodyDto');
+            expect(result).toContain('return this.uploadAvatar(userId, body, avatar);');
+            expect(result).toContain("import { FileInterceptor, FilesInterceptor, FileFieldsInterceptor } from '@nestjs/platform-express';");
+        });
+
+        it('should receive arrays of files and several file fields', async () => {
+            const result = await controllerGenerator.generateController('uploads', uploadSpec.paths, uploadSpec);
+
+            expect(result).toContain("@UseInterceptors(FilesInterceptor('photos', 10))");
+            expect(result).toContain('@UploadedFiles() photos?: Express.Multer.File[]');
+            expect(result).toContain("@UseInterceptors(FileFieldsInterceptor([{ name: 'file', maxCount: 1 }, { name: 'thumbnail', maxCount: 1 }]))");
+            expect(result).toContain('@UploadedFiles() files: { file?: Express.Multer.File[]; thumbnail?: Express.Multer.File[] }');
+            expect(result).not.toContain('UploadPhotosBodyDto');
+        });
+
+        it('should document the multipart body', async () => {
+            const result = await controllerGenerator.generateController('uploads', uploadSpec.paths, uploadSpec);
+
+            expect(result).toContain("@ApiConsumes('multipart/form-data')");
+            expect(result).toContain("@ApiBody({ schema: { type: 'object', required: ['avatar'], properties: { avatar: { type: 'string', format: 'binary' }, caption: { type: 'string' }, cropSize: { type: 'integer' } } } })");
+        });
+
+        it('should collect the non-file fields for a form body DTO', async () => {
+            await controllerGenerator.generateController('uploads', uploadSpec.paths, uploadSpec);
+            const formBodySchemas = controllerGenerator.getFormBodySchemas();
+
+            expect(Array.from(formBodySchemas.keys())).toEqual(['UploadAvatarBodyDto', 'CreateDocumentBodyDto']);
+            expect(Object.keys(formBodySchemas.get('CreateDocumentBodyDto').properties)).toEqual(['title', 'tags', 'public']);
+            expect(formBodySchemas.get('CreateDocumentBodyDto').required).toEqual(['title']);
+        });
+    });
+
+    describe('non-JSON request bodies', () => {
+        let mediaSpec: OpenAPISpec;
+
+        beforeEach(async () => {
+            mediaSpec = await specParser.parseSpec(path.join(__dirname, '../fixtures/media-types.openapi.yaml'));
+        });
+
+        it('should receive url-encoded forms as a form body DTO', async () => {
+            const result = await controllerGenerator.generateController('media-types', mediaSpec.paths, mediaSpec);
+
+            expect(result).toContain("@ApiConsumes('application/x-www-form-urlencoded')");
+            expect(result).toContain('@Body() body: ReceivePaymentWebhookBodyDto');
+            expect(result).toContain('@Body() body: { [field: string]: string }');
+            expect(controllerGenerator.getFormBodySchemas().get('ReceivePaymentWebhookBodyDto').required).toEqual(['event']);
+        });
+
+        it('should type text bodies as string and binary bodies as Buffer', async () => {
+            const result = await controllerGenerator.generateController('media-types', mediaSpec.paths, mediaSpec);
+
+            expect(result).toContain("@ApiConsumes('text/plain')\n    @ApiBody({ schema: { type: 'string' } })");
+            expect(result).toContain("@ApiConsumes('application/xml')");
+            expect(result).toContain("@ApiConsumes('application/octet-stream')\n    @ApiBody({ schema: { type: 'string', format: 'binary' } })");
+            expect(result).toContain('@Body() body: Buffer');
+            expect(result).toContain("import { ReceivePaymentWebhookBodyDto, ImportRequestDto, EventDto } from './media-types.dto'");
+        });
+
+        it('should pick the preferred media type when several are listed', async () => {
+            const result = await controllerGenerator.generateController('media-types', mediaSpec.paths, mediaSpec);
+            expect(result).toContain('_createImport(\n        @Body() body: ImportRequestDto');
+            expect(result).toContain('_publishEvent(\n        @Body() body: EventDto');
+
+            const generator = new ControllerGenerator(undefined, false, true, { requestMediaTypes: ['text/csv', 'application/json'] });
+            const preferred = await generator.generateController('media-types', mediaSpec.paths, mediaSpec);
+            expect(preferred).toContain("@ApiConsumes('text/csv')");
+            expect(preferred).toContain('_createImport(\n        @Body() body: string');
+        });
+    });
+
+    describe('non-JSON responses', () => {
+        let downloadsSpec: OpenAPISpec;
+
+        beforeEach(async () => {
+            downloadsSpec = await specParser.parseSpec(path.join(__dirname, '../fixtures/downloads.openapi.yaml'));
+        });
+
+        it('should stream binary responses back as a StreamableFile', async () => {
+            const result = await controllerGenerator.generateController('downloads', downloadsSpec.paths, downloadsSpec);
+
+            expect(result).toContain("@ApiResponse({ status: 200, schema: { type: 'string', format: 'binary' } })");
+            expect(result).toContain("@ApiProduces('application/pdf')\n    @Header('Content-Type', 'application/pdf')");
+            expect(result).toContain('): Promise<StreamableFile> {\n        return this.downloadInvoice(invoiceId).then(toStreamableFile);');
+            expect(result).toContain('abstract downloadInvoice(\n        invoiceId: string\n    ): Promise<StreamableFile | Uint8Array | Readable>;');
+            expect(result).toContain("import { Readable } from 'stream';");
+            expect(result).toContain('function toStreamableFile<T>');
+        });
+
+        it('should type text responses as string', async () => {
+            const result = await controllerGenerator.generateController('downloads', downloadsSpec.paths, downloadsSpec);
+
+            expect(result).toContain("@ApiResponse({ status: 200, schema: { type: 'string' } })\n    @ApiProduces('text/csv')\n    @Header('Content-Type', 'text/csv')");
+            expect(result).toContain('): Promise<string> {\n        return this.exportReport();');
+        });
+
+        it('should only set the Content-Type header when a single media type is produced', async () => {
+            const result = await controllerGenerator.generateController('downloads', downloadsSpec.paths, downloadsSpec);
+
+            expect(result).toContain("@ApiProduces('application/octet-stream', 'application/zip')\n    _downloadBackup(");
+        });
+
+        it('should read JSON responses of other JSON media types', async () => {
+            const result = await controllerGenerator.generateController('downloads', downloadsSpec.paths, downloadsSpec);
+
+            expect(result).toContain('): Promise<ErrorDto> {\n        return this.getLatestProblem();');
+            expect(result).toContain("import { ErrorDto } from './downloads.dto';");
+        });
+
+        it('should keep error types next to the file in the return type', async () => {
+            const generator = new ControllerGenerator(undefined, true);
+            const result = await generator.generateController('downloads', downloadsSpec.paths, downloadsSpec);
+
+            expect(result).toContain('): Promise<StreamableFile | ErrorDto> {');
+            expect(result).toContain('): Promise<StreamableFile | Uint8Array | Readable | ErrorDto>;');
+        });
+    });
+
+    describe('content negotiation', () => {
+        let negotiationSpec: OpenAPISpec;
+
+        beforeEach(async () => {
+            negotiationSpec = await specParser.parseSpec(path.join(__dirname, '../fixtures/negotiation.openapi.yaml'));
+        });
+
+        it('should negotiate the format from the Accept header', async () => {
+            const result = await controllerGenerator.generateController('negotiation', negotiationSpec.paths, negotiationSpec);
+
+            expect(result).toContain("@ApiProduces('application/json', 'text/csv')");
+            expect(result).toContain("@Headers('accept') accept: string | undefined,\n        @Res({ passthrough: true }) response: { setHeader(name: string, value: string): unknown },\n        @Query('from') from?: string");
+            expect(result).toContain("const format = negotiate(accept, ['application/json', 'text/csv']);");
+            expect(result).toContain('): Promise<ReportDto[] | string | Buffer> {');
+            expect(result).toContain('.then(result => this.serialize(format, result, response));');
+            expect(result).toContain('function negotiate<F extends string>');
+        });
+
+        it('should pass a typed format hint to the abstract method', async () => {
+            const result = await controllerGenerator.generateController('negotiation', negotiationSpec.paths, negotiationSpec);
+
+            expect(result).toContain("export type ListReportsFormat = 'application/json' | 'text/csv';");
+            expect(result).toContain('return this.listReports(projectId, format, from)');
+            expect(result).toContain('abstract listReports(\n        projectId: string,\n        format: ListReportsFormat,\n        from?: string\n    ): Promise<ReportDto[]>;');
+        });
+
+        it('should require a serializer for every negotiated media type that is not JSON', async () => {
+            const result = await controllerGenerator.generateController('negotiation', negotiationSpec.paths, negotiationSpec);
+
+            expect(result).toContain("protected abstract readonly serializers: {\n        'text/csv': (result: ReportDto[]) => string | Buffer;\n        'application/xml': (result: ReportDto) => string | Buffer;\n    };");
+            expect(result).not.toContain("'application/json': (result:");
+        });
+
+        it('should vary on Accept and send responses without a body as they are', async () => {
+            const result = await controllerGenerator.generateController('negotiation', negotiationSpec.paths, negotiationSpec);
+
+            expect(result).toContain("response.setHeader('Vary', 'Accept');\n        if (result === undefined) {");
+            expect(result).toContain("return result;\n        }\n        response.setHeader('Content-Type', format);");
+        });
+
+        it('should leave operations with a single media type alone', async () => {
+            const result = await controllerGenerator.generateController('negotiation', negotiationSpec.paths, negotiationSpec);
+
+            expect(result).toContain('_getReportSummary(\n        @Param(\'reportId\') reportId: string\n    ): Promise<ReportDto> {\n        return this.getReportSummary(reportId);');
+
+            const userResult = await controllerGenerator.generateController('user', testSpec.paths, testSpec);
+            expect(userResult).not.toContain('negotiate(');
+            expect(userResult).not.toContain('serializers');
+        });
+    });
+
+    describe('security', () => {
+        let securitySpec: OpenAPISpec;
+
+        beforeEach(async () => {
+            securitySpec = await specParser.parseSpec(path.join(__dirname, '../fixtures/security.openapi.yaml'));
+        });
+
+        it('should document security schemes with Swagger auth decorators', async () => {
+            const result = await controllerGenerator.generateController('security', securitySpec.paths, securitySpec);
+
+            expect(result).toContain("@ApiResponse({ status: 200 })\n    @ApiBearerAuth('bearerAuth')\n    _listPets(");
+            expect(result).toContain("@ApiOAuth2(['pets:write', 'pets:read'], 'petstoreAuth')");
+            expect(result).toContain("@ApiSecurity('openId', ['openid'])\n    @ApiSecurity('api-key')");
+            expect(result).toContain("@ApiSecurity({ apiKeyAuth: [], bearerAuth: [] })");
+            expect(result).toContain('ApiBearerAuth, ApiOAuth2, ApiSecurity } from');
+        });
+
+        it('should require the declared scopes with metadata', async () => {
+            const result = await controllerGenerator.generateController('security', securitySpec.paths, securitySpec);
+
+            expect(result).toContain("@SetMetadata('scopes', [['pets:write', 'pets:read']])");
+            expect(result).toContain("@SetMetadata('scopes', [['openid'], []])");
+        });
+
+        it('should mark operations without security as public', async () => {
+            const result = await controllerGenerator.generateController('security', securitySpec.paths, securitySpec);
+
+            expect(result).toContain("@ApiResponse({ status: 200 })\n    @SetMetadata('isPublic', true)\n    _getHealth(");
+        });
+
+        it('should apply the configured guards', async () => {
+            const generator = new ControllerGenerator(undefined, false, true, {
+                guards: {
+                    bearerAuth: { name: 'JwtAuthGuard', module: '../auth/jwt-auth.guard' },
+                    apiKeyAuth: { name: 'ApiKeyGuard', module: '../auth/api-key.guard' },
+                    'api-key': { name: 'ApiKeyGuard', module: '../auth/api-key.guard' }
+                }
+            });
+            const result = await generator.generateController('security', securitySpec.paths, securitySpec);
+
+            expect(result).toContain("@ApiBearerAuth('bearerAuth')\n    @UseGuards(JwtAuthGuard)");
+            expect(result).toContain('@UseGuards(ApiKeyGuard, JwtAuthGuard)');
+            expect(result).not.toContain("@ApiSecurity('api-key')\n    @UseGuards(ApiKeyGuard)");
+            expect(result).toContain("import { JwtAuthGuard } from '../auth/jwt-auth.guard';");
+            expect(result).toContain("import { ApiKeyGuard } from '../auth/api-key.guard';");
+            expect(result).toContain("@ApiOAuth2(['pets:write', 'pets:read'], 'petstoreAuth')\n    @SetMetadata('scopes'");
+        });
+
+        it('should not combine the guards of alternative requirements', async () => {
+            const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+            const generator = new ControllerGenerator(undefined, false, true, {
+                guards: {
+                    openId: { name: 'OidcGuard', module: '../auth/oidc.guard' },
+                    'api-key': { name: 'ApiKeyGuard', module: '../auth/api-key.guard' }
+                }
+            });
+            const result = await generator.generateController('security', securitySpec.paths, securitySpec);
+
+            expect(result).toContain("@ApiSecurity('api-key')\n    @SetMetadata('scopes', [['openid'], []])\n    _getPetPhoto(");
+            expect(result).not.toContain('OidcGuard');
+            expect(warn).toHaveBeenCalledWith(expect.anything(), expect.stringContaining('Operation getPetPhoto accepts alternative security requirements'));
+            warn.mockRestore();
+        });
+
+        it('should apply a guard shared by all alternative requirements', async () => {
+            const generator = new ControllerGenerator(undefined, false, true, {
+                guards: {
+                    openId: { name: 'AnyAuthGuard', module: '../auth/any-auth.guard' },
+                    'api-key': { name: 'AnyAuthGuard', module: '../auth/any-auth.guard' }
+                }
+            });
+            const result = await generator.generateController('security', securitySpec.paths, securitySpec);
+
+            expect(result).toContain("@ApiSecurity('api-key')\n    @UseGuards(AnyAuthGuard)\n    @SetMetadata('scopes', [['openid'], []])");
+        });
+
+        it('should not add guards without a mapping', async () => {
+            const result = await controllerGenerator.generateController('security', securitySpec.paths, securitySpec);
+
+            expect(result).not.toContain('UseGuards');
+        });
+    });
+
+    describe('deprecation', () => {
+        let deprecationSpec: OpenAPISpec;
+
+        beforeEach(async () => {
+            deprecationSpec = await specParser.parseSpec(path.join(__dirname, '../fixtures/deprecation.openapi.yaml'));
+        });
+
+        it('should mark deprecated operations in Swagger and on the abstract method', async () => {
+            const result = await controllerGenerator.generateController('deprecation', deprecationSpec.paths, deprecationSpec);
+
+            expect(result).toContain("@Post('/orders/search')\n    @ApiOperation({ deprecated: true })");
+            expect(result).toContain("@ApiOperation({ summary: 'List orders' })");
+            expect(result).toContain('    /** @deprecated */\n    abstract searchOrders(');
+            expect(result).not.toContain('/** @deprecated */\n    abstract listOrders(');
+        });
+
+        it('should mark deprecated query and header parameters', async () => {
+            const result = await controllerGenerator.generateController('deprecation', deprecationSpec.paths, deprecationSpec);
+
+            expect(result).toContain("@ApiQuery({ name: 'state', type: String, required: false, deprecated: true })");
+            expect(result).toContain("@ApiQuery({ name: 'status', type: String, required: false })");
+            expect(result).toContain("schema: { type: 'string' }, deprecated: true })");
+        });
+
+        it('should only send deprecation headers when enabled', async () => {
+            const result = await controllerGenerator.generateController('deprecation', deprecationSpec.paths, deprecationSpec);
+            expect(result).not.toContain('DeprecationInterceptor');
+
+            const generator = new ControllerGenerator(undefined, false, true, { deprecationHeaders: true });
+            const withHeaders = await generator.generateController('deprecation', deprecationSpec.paths, deprecationSpec);
+            expect(withHeaders).toContain('class DeprecationInterceptor implements NestInterceptor');
+            expect(withHeaders).toContain("@UseInterceptors(new DeprecationInterceptor('Thu, 31 Dec 2026 00:00:00 GMT'))\n    _searchOrders(");
+            expect(withHeaders).toContain('@UseInterceptors(new DeprecationInterceptor())\n    _exportOrders(');
+            expect(withHeaders).toContain('UseInterceptors, NestInterceptor, CallHandler, ExecutionContext\n} from');
+        });
+    });
+
+    describe('response headers', () => {
+        let headersSpec: OpenAPISpec;
+
+        beforeEach(async () => {
+            headersSpec = await specParser.parseSpec(path.join(__dirname, '../fixtures/response-headers.openapi.yaml'));
+        });
+
+        it('should document response headers', async () => {
+            const result = await controllerGenerator.generateController('response-headers', headersSpec.paths, headersSpec);
+
+            expect(result).toContain("@ApiResponse({ status: 200, type: [OrderDto], headers: { 'X-Total-Count': { description: 'Number of orders', required: true, schema: { type: 'integer' } }, Link: { schema: { type: 'string' } } } })");
+            expect(result).toContain("@ApiResponse({ status: 429, headers: { 'X-RateLimit-Remaining': { schema: { type: 'integer' } } } })");
+            expect(result).toContain("@ApiResponse({ status: 200, schema: { type: 'string', format: 'binary' }, headers: { 'Content-Disposition': { schema: { type: 'string' } } } })");
+        });
+
+        it('should keep returning the body alone unless enabled', async () => {
+            const result = await controllerGenerator.generateController('response-headers', headersSpec.paths, headersSpec);
+
+            expect(result).toContain('abstract listOrders(\n    ): Promise<OrderDto[]>;');
+            expect(result).not.toContain('applyHeaders');
+            expect(result).not.toContain('ListOrdersResult');
+        });
+
+        it('should let abstract methods return typed headers next to the body', async () => {
+            const generator = new ControllerGenerator(undefined, false, true, { responseHeaders: true });
+            const result = await generator.generateController('response-headers', headersSpec.paths, headersSpec);
+
+            expect(result).toContain("export interface ListOrdersResult {\n    body: OrderDto[];\n    headers: {\n        /** Number of orders */\n        'X-Total-Count': number;\n        Link?: string;\n    };\n}");
+            expect(result).toContain('export interface CreateOrderResult {\n    body: OrderDto;\n    headers: {\n        Location: string;\n        ETag?: string;\n    };\n}');
+            expect(result).toContain('abstract listOrders(\n    ): Promise<ListOrdersResult>;');
+            expect(result).toContain('@Body() body: OrderDto,\n        @Res({ passthrough: true }) response: { setHeader(name: string, value: string): unknown }\n    ): Promise<OrderDto> {');
+            expect(result).toContain('return this.createOrder(body)\n            .then(result => applyHeaders(response, result));');
+            expect(result).toContain('function applyHeaders<T>');
+        });
+
+        it('should apply headers before streaming files', async () => {
+            const generator = new ControllerGenerator(undefined, false, true, { responseHeaders: true });
+            const result = await generator.generateController('response-headers', headersSpec.paths, headersSpec);
+
+            expect(result).toContain('body: StreamableFile | Uint8Array | Readable;');
+            expect(result).toContain('.then(result => applyHeaders(response, result)).then(toStreamableFile);');
+            expect(result).toContain('abstract getOrder(\n        orderId: string\n    ): Promise<OrderDto>;');
+        });
+    });
+
+    describe('status results', () => {
+        let statusSpec: OpenAPISpec;
+
+        beforeEach(async () => {
+            statusSpec = await specParser.parseSpec(path.join(__dirname, '../fixtures/status-results.openapi.yaml'));
+        });
+
+        it('should keep the first success status unless enabled', async () => {
+            const result = await controllerGenerator.generateController('status-results', statusSpec.paths, statusSpec);
+
+            expect(result).toContain('abstract getUser(\n        userId: string\n    ): Promise<UserDto>;');
+            expect(result).not.toContain('applyStatus');
+        });
+
+        it('should generate a result type with a variant per declared status', async () => {
+            const generator = new ControllerGenerator(undefined, false, true, { statusResults: true });
+            const result = await generator.generateController('status-results', statusSpec.paths, statusSpec);
+
+            expect(result).toContain('export type GetUserResult =\n    | { status: 200; body: UserDto }\n    | { status: 404; body: ErrorDto };');
+            expect(result).toContain('export type DeleteUserResult =\n    | { status: 204; body: void }\n    | { status: 404; body: ErrorDto };');
+            expect(result).toContain('export type CreateUserResult =\n    | { status: 201; body: UserDto }\n    | { status: 409; body: ErrorDto };');
+            expect(result).toContain('abstract getUser(\n        userId: string\n    ): Promise<GetUserResult>;');
+        });
+
+        it('should set the status picked by the implementation', async () => {
+            const generator = new ControllerGenerator(undefined, false, true, { statusResults: true });
+            const result = await generator.generateController('status-results', statusSpec.paths, statusSpec);
+
+            expect(result).toContain('@Res({ passthrough: true }) response: { status(code: number): unknown; setHeader(name: string, value: string): unknown }\n    ): Promise<UserDto | ErrorDto> {');
+            expect(result).toContain('return this.getUser(userId)\n            .then(result => applyStatus(response, result));');
+            expect(result).toContain('): Promise<void | ErrorDto> {');
+            expect(result).toContain("function applyStatus<R extends { status: number; body: unknown; headers?: { [name: string]: unknown } }>(");
+        });
+
+        it('should carry response headers in the variants when those are enabled too', async () => {
+            const generator = new ControllerGenerator(undefined, false, true, { responseHeaders: true, statusResults: true });
+            const result = await generator.generateController('status-results', statusSpec.paths, statusSpec);
+
+            expect(result).toContain('| { status: 201; body: UserDto; headers: { Location: string } }');
+            expect(result).not.toContain('applyHeaders');
+        });
+    });
+
     describe('tags handling', () => {
         it('should extract and include all unique tags', async () => {
             const result = await controllerGenerator.generateController('user', testSpec.paths, testSpec);
@@ -1,4 +1,5 @@
 import {DtoGenerator} from '../../src/generator/dto-generator';
+import {ControllerGenerator} from '../../src/generator/controller-generator';
 import {SpecParser} from '../../src/parser/spec-parser';
 import {OpenAPISpec, SchemaObject} from '../../src/types/openapi';
 import * as path from 'path';
@@ -56,7 +57,7 @@ describe('DtoGenerator', () => {
             expect(result.resourceDtoContent).toContain('@IsEmail()');
             expect(result.resourceDtoContent).toContain('@IsUUID()');
             expect(result.resourceDtoContent).toContain('@IsDateString()');
-            expect(result.resourceDtoContent).toContain('@IsDate()');
+            expect(result.resourceDtoContent).not.toContain('@IsDate()');
 
             // String length validation
             expect(result.resourceDtoContent).toContain('@MinLength(1)');
@@ -77,9 +78,9 @@ describe('DtoGenerator', () => {
             const result = await dtoGenerator.generateAllDtosSplit(testSpec);
 
             // Status enum
-            expect(result.resourceDtoContent).toContain('@IsEnum(StatusEnum)');
+            expect(result.resourceDtoContent).toContain('@IsEnum(UserStatusEnum)');
             // Role enum
-            expect(result.resourceDtoContent).toContain('@IsEnum(RoleEnum)');
+            expect(result.resourceDtoContent).toContain('@IsEnum(UserRoleEnum)');
         });
 
         it('should generate array validation decorators', async () => {
@@ -99,7 +100,7 @@ describe('DtoGenerator', () => {
 
             // Optional properties should have ?
             expect(result.resourceDtoContent).toContain('age?: number');
-            expect(result.resourceDtoContent).toContain('role?: RoleEnum');
+            expect(result.resourceDtoContent).toContain('role?: UserRoleEnum');
 
             // Optional properties should have @IsOptional()
             expect(result.resourceDtoContent).toContain('@IsOptional()');
@@ -142,7 +143,7 @@ describe('DtoGenerator', () => {
 
             // Optional fields should have ?
             expect(result.resourceDtoContent).toContain('age?: number');
-            expect(result.resourceDtoContent).toContain('role?: RoleEnum');
+            expect(result.resourceDtoContent).toContain('role?: CreateUserRequestRoleEnum');
 
             // Password validation
             expect(result.resourceDtoContent).toContain('@MinLength(8)');
@@ -179,10 +180,10 @@ describe('DtoGenerator', () => {
             expect(result.resourceDtoContent).toContain('@Matches(/^[a-z]{2}(-[A-Z]{2})?$/)');
 
             // Should handle enum for theme
-            expect(result.resourceDtoContent).toContain("enum ThemeEnum");
-            expect(result.resourceDtoContent).toContain("AUTO = 'auto',");
+            expect(result.resourceDtoContent).toContain("enum UserPreferencesThemeEnum");
+            expect(result.resourceDtoContent).toContain("LIGHT = 'light',");
             expect(result.resourceDtoContent).toContain("DARK = 'dark',");
-            expect(result.resourceDtoContent).toContain("LIGHT = 'light'");
+            expect(result.resourceDtoContent).toContain("AUTO = 'auto'");
         });
     });
 
@@ -263,8 +264,8 @@ describe('DtoGenerator', () => {
             expect(result).toContain('@Max(100)');
 
             // Enum validations
-            expect(result).toContain('@IsEnum(StatusEnum)');
-            expect(result).toContain('status?: StatusEnum');
+            expect(result).toContain('@IsEnum(ValidationTestStatusEnum)');
+            expect(result).toContain('status?: ValidationTestStatusEnum');
 
             // Array validations
             expect(result).toContain('@IsArray()');
@@ -379,10 +380,10 @@ describe('DtoGenerator', () => {
             const result = await dtoGenerator.generateDto('AddressDto', addressSchema, complexSpec);
 
             // Should generate enum for country
-            expect(result).toContain('export enum CountryEnum');
+            expect(result).toContain('export enum AddressCountryEnum');
             expect(result).toContain('US = \'US\'');
             expect(result).toContain('CA = \'CA\'');
-            expect(result).toContain('@IsEnum(CountryEnum)');
+            expect(result).toContain('@IsEnum(AddressCountryEnum)');
         });
 
         it('should handle nested objects with additional properties', async () => {
@@ -390,7 +391,7 @@ describe('DtoGenerator', () => {
             const result = await dtoGenerator.generateDto('OrganizationDto', organizationSchema, complexSpec);
 
             // Should handle metadata with additionalProperties
-            expect(result).toContain('metadata?: object');
+            expect(result).toContain('metadata?: Record<string, any>');
         });
 
         it('should handle complex validation patterns in nested schemas', async () => {
@@ -413,6 +414,860 @@ describe('DtoGenerator', () => {
         });
     });
 
+    describe('oneOf/anyOf schemas', () => {
+        let polymorphicSpec: OpenAPISpec;
+
+        beforeEach(async () => {
+            const polymorphicSpecPath = path.join(__dirname, '../fixtures/polymorphic.openapi.yaml');
+            polymorphicSpec = await specParser.parseSpec(polymorphicSpecPath);
+        });
+
+        it('should generate union types for oneOf and anyOf properties', async () => {
+            const result = await dtoGenerator.generateAllDtosSplit(polymorphicSpec);
+
+            expect(result.resourceDtoContent).toContain('method: CardPaymentDto | BankTransferPaymentDto');
+            expect(result.resourceDtoContent).toContain('reference?: string | number');
+            expect(result.resourceDtoContent).toContain('channels?: (EmailChannelDto | SmsChannelDto)[]');
+        });
+
+        it('should document union properties with getSchemaPath', async () => {
+            const result = await dtoGenerator.generateAllDtosSplit(polymorphicSpec);
+
+            expect(result.resourceDtoContent).toContain('import { ApiProperty, getSchemaPath, ApiExtraModels }');
+            expect(result.resourceDtoContent).toContain('@ApiExtraModels(CardPaymentDto, BankTransferPaymentDto, EmailChannelDto, SmsChannelDto)');
+            expect(result.resourceDtoContent).toContain('oneOf: [{ $ref: getSchemaPath(CardPaymentDto) }, { $ref: getSchemaPath(BankTransferPaymentDto) }]');
+            expect(result.resourceDtoContent).toContain("anyOf: [{ type: 'string' }, { type: 'integer' }]");
+            expect(result.resourceDtoContent).toContain("type: 'array', items: { anyOf: [{ $ref: getSchemaPath(EmailChannelDto) }, { $ref: getSchemaPath(SmsChannelDto) }] }");
+        });
+
+        it('should validate union properties against each branch', async () => {
+            const result = await dtoGenerator.generateAllDtosSplit(polymorphicSpec);
+
+            expect(result.resourceDtoContent).toContain('function ValidateUnion(');
+            expect(result.resourceDtoContent).toContain("@ValidateUnion('oneOf', () => [CardPaymentDto, BankTransferPaymentDto])");
+            expect(result.resourceDtoContent).toContain("@ValidateUnion('anyOf', () => ['string', 'integer'])");
+            expect(result.resourceDtoContent).toContain("@ValidateUnion('anyOf', () => [EmailChannelDto, SmsChannelDto], { each: true })");
+            expect(result.resourceDtoContent).toContain('ValidateBy, ValidationOptions, ValidationArguments, validateSync');
+            expect(result.resourceDtoContent).toContain('import { Type, plainToInstance, Transform }');
+        });
+
+        it('should convert union objects to the first DTO branch they match', async () => {
+            const result = await dtoGenerator.generateAllDtosSplit(polymorphicSpec);
+
+            expect(result.resourceDtoContent).toContain('function TransformUnion(');
+            expect(result.resourceDtoContent).toContain("@ValidateUnion('oneOf', () => [CardPaymentDto, BankTransferPaymentDto])\n  @TransformUnion(() => [CardPaymentDto, BankTransferPaymentDto])");
+            expect(result.resourceDtoContent).toContain('@TransformUnion(() => [EmailChannelDto, SmsChannelDto], { each: true })');
+            expect(result.resourceDtoContent).not.toContain("@TransformUnion(() => ['string', 'integer'])");
+        });
+
+        it('should not emit the union helper when no union is used', async () => {
+            const result = await dtoGenerator.generateAllDtosSplit(testSpec);
+
+            expect(result.resourceDtoContent).not.toContain('ValidateUnion');
+            expect(result.resourceDtoContent).toContain("import { ApiProperty } from '@nestjs/swagger'");
+        });
+
+        it('should handle unions with $ref variants in unresolved schemas', async () => {
+            const testSchema: SchemaObject = {
+                type: 'object',
+                required: ['payment'],
+                properties: {
+                    payment: {
+                        oneOf: [
+                            {$ref: '#/components/schemas/CardPayment'},
+                            {type: 'string'}
+                        ]
+                    }
+                }
+            };
+
+            const result = await dtoGenerator.generateDto('CheckoutDto', testSchema, polymorphicSpec);
+
+            expect(result).toContain('payment: CardPaymentDto | string');
+            expect(result).toContain("@ValidateUnion('oneOf', () => [CardPaymentDto, 'string'])");
+            expect(result).toContain('export class CardPaymentDto');
+        });
+    });
+
+    describe('discriminator schemas', () => {
+        let polymorphicSpec: OpenAPISpec;
+
+        beforeEach(async () => {
+            const polymorphicSpecPath = path.join(__dirname, '../fixtures/polymorphic.openapi.yaml');
+            polymorphicSpec = await specParser.parseSpec(polymorphicSpecPath);
+        });
+
+        it('should generate an abstract base class for schemas with a discriminator', async () => {
+            const result = await dtoGenerator.generateAllDtosSplit(polymorphicSpec);
+
+            expect(result.resourceDtoContent).toContain('export abstract class PetDto {');
+        });
+
+        it('should generate subclasses with only their own properties', async () => {
+            const result = await dtoGenerator.generateAllDtosSplit(polymorphicSpec);
+            const content = result.resourceDtoContent!;
+
+            expect(content).toContain('export class CatDto extends PetDto {');
+            expect(content).toContain('export class DogDto extends PetDto {');
+
+            const catClass = content.substring(content.indexOf('export class CatDto'), content.indexOf('export class DogDto'));
+            expect(catClass).toContain('huntingSkill?: string');
+            expect(catClass).not.toContain('petType: string');
+
+            // Base class must be declared before its subclasses
+            expect(content.indexOf('class PetDto')).toBeLessThan(content.indexOf('class CatDto'));
+        });
+
+        it('should wire class-transformer discriminators for base class references', async () => {
+            const result = await dtoGenerator.generateAllDtosSplit(polymorphicSpec);
+            const typeDecorator = "@Type(() => PetDto, { discriminator: { property: 'petType', subTypes: [{ value: CatDto, name: 'cat' }, { value: DogDto, name: 'dog' }] }, keepDiscriminatorProperty: true })";
+
+            expect(result.resourceDtoContent).toContain(`${typeDecorator}\n  @ApiProperty({ type: () => PetDto })\n  favorite: PetDto`);
+            expect(result.resourceDtoContent).toContain(`@ValidateNested({ each: true })\n  ${typeDecorator}`);
+        });
+
+        it('should use discriminators instead of branch matching for discriminated oneOf', async () => {
+            const result = await dtoGenerator.generateAllDtosSplit(polymorphicSpec);
+
+            expect(result.resourceDtoContent).toContain('adopted?: CatDto | DogDto');
+            expect(result.resourceDtoContent).toContain("@Type(() => Object, { discriminator: { property: 'petType', subTypes: [{ value: CatDto, name: 'Cat' }, { value: DogDto, name: 'Dog' }] }, keepDiscriminatorProperty: true })");
+            expect(result.resourceDtoContent).toContain("discriminator: { propertyName: 'petType', mapping: { 'Cat': getSchemaPath(CatDto), 'Dog': getSchemaPath(DogDto) } }");
+            expect(result.resourceDtoContent).not.toContain("@ValidateUnion('oneOf', () => [CatDto, DogDto])");
+        });
+
+        it('should derive sub types from allOf inheritance when no mapping is declared', async () => {
+            const spec: OpenAPISpec = {
+                openapi: '3.0.3',
+                info: {title: 'Events', version: '1.0.0'},
+                paths: {},
+                components: {
+                    schemas: {
+                        Event: {
+                            type: 'object',
+                            required: ['kind'],
+                            properties: {kind: {type: 'string'}},
+                            discriminator: {propertyName: 'kind'}
+                        },
+                        Created: {
+                            allOf: [
+                                {$ref: '#/components/schemas/Event'},
+                                {type: 'object', properties: {createdAt: {type: 'string'}}}
+                            ]
+                        },
+                        Envelope: {
+                            type: 'object',
+                            properties: {event: {$ref: '#/components/schemas/Event'}}
+                        }
+                    }
+                }
+            };
+
+            const result = await dtoGenerator.generateAllDtosSplit(spec);
+
+            expect(result.resourceDtoContent).toContain('export class CreatedDto extends EventDto {');
+            expect(result.resourceDtoContent).toContain("@Type(() => EventDto, { discriminator: { property: 'kind', subTypes: [{ value: CreatedDto, name: 'Created' }] }, keepDiscriminatorProperty: true })");
+        });
+    });
+
+    describe('nullable schemas', () => {
+        let nullableSpec: OpenAPISpec;
+
+        beforeEach(async () => {
+            const nullableSpecPath = path.join(__dirname, '../fixtures/nullable.openapi.yaml');
+            nullableSpec = await specParser.parseSpec(nullableSpecPath);
+        });
+
+        it('should add null to the type of nullable properties', async () => {
+            const result = await dtoGenerator.generateAllDtosSplit(nullableSpec);
+
+            expect(result.resourceDtoContent).toContain('nickname: string | null');
+            expect(result.resourceDtoContent).toContain('closedAt: string | null');
+            expect(result.resourceDtoContent).toContain('balance?: number | null');
+            expect(result.resourceDtoContent).toContain('aliases?: (string | null)[]');
+        });
+
+        it('should skip validation of null values for required nullable properties', async () => {
+            const result = await dtoGenerator.generateAllDtosSplit(nullableSpec);
+
+            expect(result.resourceDtoContent).toContain('@ValidateIf((_, value) => value !== null)\n  @IsString()\n  @MaxLength(50)');
+            expect(result.resourceDtoContent).toContain(', ValidateIf\n} from \'class-validator\'');
+        });
+
+        it('should mark nullable properties in ApiProperty', async () => {
+            const result = await dtoGenerator.generateAllDtosSplit(nullableSpec);
+
+            expect(result.resourceDtoContent).toContain('@ApiProperty({ nullable: true })\n  nickname');
+            expect(result.resourceDtoContent).toContain("@ApiProperty({ required: false, nullable: true, enum: ['basic', 'premium'] })");
+            expect(result.resourceDtoContent).toContain('@ApiProperty({ required: false, isArray: true, type: () => String })');
+        });
+
+        it('should treat a oneOf with a null branch as a nullable reference', async () => {
+            const result = await dtoGenerator.generateAllDtosSplit(nullableSpec);
+
+            expect(result.resourceDtoContent).toContain('manager?: ManagerDto | null');
+            expect(result.resourceDtoContent).toContain('@ValidateNested()\n  @Type(() => ManagerDto)\n  @ApiProperty({ required: false, nullable: true, type: () => ManagerDto })');
+            expect(result.resourceDtoContent).not.toContain('ValidateUnion');
+        });
+
+        it('should support OpenAPI 3.0 nullable on unresolved schemas', async () => {
+            const testSchema: SchemaObject = {
+                type: 'object',
+                required: ['count'],
+                properties: {
+                    count: {type: 'integer', nullable: true}
+                }
+            };
+
+            const result = await dtoGenerator.generateDto('CounterDto', testSchema, testSpec);
+
+            expect(result).toContain('count: number | null');
+            expect(result).toContain('@ValidateIf((_, value) => value !== null)\n  @IsInt()');
+        });
+    });
+
+    describe('readOnly and writeOnly properties', () => {
+        let accessModeSpec: OpenAPISpec;
+
+        beforeEach(async () => {
+            const accessModeSpecPath = path.join(__dirname, '../fixtures/access-mode.openapi.yaml');
+            accessModeSpec = await specParser.parseSpec(accessModeSpecPath);
+        });
+
+        it('should omit writeOnly properties from the response DTO', async () => {
+            const result = await dtoGenerator.generateAllDtosSplit(accessModeSpec);
+            const userDto = result.resourceDtoContent!.split('export class UserDto {')[1].split('export class')[0];
+
+            expect(userDto).toContain('id: string');
+            expect(userDto).toContain('@ApiProperty({ readOnly: true })\n  id: string');
+            expect(userDto).toContain('createdAt?: string');
+            expect(userDto).not.toContain('password');
+        });
+
+        it('should generate a request DTO without readOnly properties for request bodies', async () => {
+            const result = await dtoGenerator.generateAllDtosSplit(accessModeSpec);
+            const createDto = result.resourceDtoContent!.split('export class UserCreateDto {')[1].split('export class')[0];
+
+            expect(createDto).toContain('email: string');
+            expect(createDto).toContain('@MinLength(8)\n  @ApiProperty()\n  password: string');
+            expect(createDto).not.toContain('id: string');
+            expect(createDto).not.toContain('createdAt');
+        });
+
+        it('should nest the write models of referenced schemas in request bodies', async () => {
+            const result = await dtoGenerator.generateAllDtosSplit(accessModeSpec);
+            const teamCreateDto = result.resourceDtoContent!.split('export class TeamCreateDto {')[1].split('export class')[0];
+            const teamDto = result.resourceDtoContent!.split('export class TeamDto {')[1].split('export class')[0];
+
+            expect(teamCreateDto).toContain('@Type(() => UserCreateDto)\n  @ApiProperty({ type: () => UserCreateDto })\n  owner: UserCreateDto;');
+            expect(teamCreateDto).toContain('members?: UserCreateDto[];');
+            expect(teamDto).toContain('owner: UserDto;');
+            expect(teamDto).toContain('members?: UserDto[];');
+        });
+
+        it('should generate write models for schemas nested through allOf', async () => {
+            const result = await dtoGenerator.generateAllDtosSplit(accessModeSpec);
+            const adminCreateDto = result.resourceDtoContent!.split('export class AdminUserCreateDto {')[1].split('export class')[0];
+
+            expect(adminCreateDto).toContain('password: string;');
+            expect(adminCreateDto).not.toContain('id: string');
+            expect(adminCreateDto).toContain('manager?: UserCreateDto;');
+        });
+
+        it('should leave readOnly properties out of form body DTOs', async () => {
+            const controllerGenerator = new ControllerGenerator();
+            await controllerGenerator.generateController('access-mode', accessModeSpec.paths, accessModeSpec);
+            const result = await dtoGenerator.generateAllDtosSplit(accessModeSpec, undefined, controllerGenerator.getFormBodySchemas());
+            const bodyDto = result.resourceDtoContent!.split('export class SignUpBodyDto {')[1].split('export class')[0];
+
+            expect(bodyDto).toContain('password: string;');
+            expect(bodyDto).not.toContain('id: string');
+            expect(bodyDto).not.toContain('createdAt');
+        });
+
+        it('should not generate request DTOs for schemas only used in responses', async () => {
+            const result = await dtoGenerator.generateAllDtosSplit(accessModeSpec);
+
+            expect(result.resourceDtoContent).toContain('export class AuditEntryDto');
+            expect(result.resourceDtoContent).not.toContain('AuditEntryCreateDto');
+        });
+    });
+
+    describe('default and const values', () => {
+        let defaultsSpec: OpenAPISpec;
+
+        beforeEach(async () => {
+            const defaultsSpecPath = path.join(__dirname, '../fixtures/defaults.openapi.yaml');
+            defaultsSpec = await specParser.parseSpec(defaultsSpecPath);
+        });
+
+        it('should initialize properties with their default values', async () => {
+            const result = await dtoGenerator.generateAllDtosSplit(defaultsSpec);
+
+            expect(result.resourceDtoContent).toContain('page?: number = 1;');
+            expect(result.resourceDtoContent).toContain('includeArchived?: boolean = false;');
+            expect(result.resourceDtoContent).toContain("title: string = 'Untitled report';");
+            expect(result.resourceDtoContent).toContain("tags?: string[] = ['daily'];");
+            expect(result.resourceDtoContent).toContain('cursor?: string | null = null;');
+            expect(result.resourceDtoContent).toMatch(/sortOrder\?: (\w+) = \1\.DESC;/);
+            expect(result.resourceDtoContent).toContain('pagination?: PaginationDto;');
+        });
+
+        it('should document default values in ApiProperty', async () => {
+            const result = await dtoGenerator.generateAllDtosSplit(defaultsSpec);
+
+            expect(result.resourceDtoContent).toContain('@ApiProperty({ required: false, default: 20 })');
+            expect(result.resourceDtoContent).toContain("@ApiProperty({ required: false, default: 'desc', enum: ['asc', 'desc'] })");
+        });
+
+        it('should type const values as literals validated with Equals', async () => {
+            const result = await dtoGenerator.generateAllDtosSplit(defaultsSpec);
+
+            expect(result.resourceDtoContent).toContain('@Equals(2)\n  @ApiProperty({ enum: [2] })\n  version: 2;');
+            expect(result.resourceDtoContent).toContain("@Equals('report')\n  @ApiProperty({ enum: ['report'] })\n  kind: 'report';");
+            expect(result.resourceDtoContent).toContain('ArrayMinSize, Equals, IsObject\n} from \'class-validator\'');
+        });
+    });
+
+    describe('numeric, array and object constraints', () => {
+        let constraintsSpec: OpenAPISpec;
+
+        beforeEach(async () => {
+            const constraintsSpecPath = path.join(__dirname, '../fixtures/constraints.openapi.yaml');
+            constraintsSpec = await specParser.parseSpec(constraintsSpecPath);
+        });
+
+        it('should validate exclusive bounds and multipleOf', async () => {
+            const result = await dtoGenerator.generateAllDtosSplit(constraintsSpec);
+
+            expect(result.resourceDtoContent).toContain('@IsInt()\n  @IsPositive()\n  @IsDivisibleBy(5)');
+            expect(result.resourceDtoContent).toContain('@Min(0.5)\n  @NotEquals(0.5)\n  @Max(1000)\n  @NotEquals(1000)');
+            expect(result.resourceDtoContent).toContain('@IsNumber()\n  @IsNegative()');
+            expect(result.resourceDtoContent).toContain('@Min(10)\n  @NotEquals(10)');
+        });
+
+        it('should validate unique items and primitive array items', async () => {
+            const result = await dtoGenerator.generateAllDtosSplit(constraintsSpec);
+
+            expect(result.resourceDtoContent).toContain('@ArrayMaxSize(5)\n  @ArrayUnique()\n  @IsString({ each: true })\n  @IsEmail({}, { each: true })');
+            expect(result.resourceDtoContent).toContain('@MinLength(3, { each: true })\n  @Matches(/^[A-Z]+$/, { each: true })');
+            expect(result.resourceDtoContent).toContain('@IsInt({ each: true })\n  @Min(1, { each: true })\n  @Max(5, { each: true })');
+            expect(result.resourceDtoContent).toContain("@IsIn(['web', 'store'], { each: true })");
+        });
+
+        it('should document the constraints of primitive array items', async () => {
+            const result = await dtoGenerator.generateAllDtosSplit(constraintsSpec);
+
+            expect(result.resourceDtoContent).toContain("@ApiProperty({ required: false, maxItems: 5, uniqueItems: true, type: 'array', items: { type: 'string', format: 'email' } })");
+            expect(result.resourceDtoContent).toContain("@ApiProperty({ required: false, type: 'array', items: { type: 'string', minLength: 3, pattern: '^[A-Z]+$' } })");
+            expect(result.resourceDtoContent).toContain("@ApiProperty({ required: false, type: 'array', items: { type: 'integer', minimum: 1, maximum: 5 } })");
+            expect(result.resourceDtoContent).toContain('@ApiProperty({ required: false, isArray: true, enum: OrderChannelsEnum })');
+        });
+
+        it('should escape slashes in item patterns', async () => {
+            const testSchema: SchemaObject = {
+                type: 'object',
+                properties: {
+                    cidrs: {type: 'array', items: {type: 'string', pattern: '^[0-9.]+/[0-9]{1,2}$'}}
+                }
+            };
+
+            const result = await dtoGenerator.generateDto('NetworkDto', testSchema, testSpec);
+
+            expect(result).toContain('@Matches(/^[0-9.]+\\/[0-9]{1,2}$/, { each: true })');
+        });
+
+        it('should validate the number of object properties', async () => {
+            const result = await dtoGenerator.generateAllDtosSplit(constraintsSpec);
+
+            expect(result.resourceDtoContent).toContain('@ValidatePropertyCount(1, 10)');
+            expect(result.resourceDtoContent).toContain('function ValidatePropertyCount(');
+        });
+
+        it('should reflect constraints in ApiProperty', async () => {
+            const result = await dtoGenerator.generateAllDtosSplit(constraintsSpec);
+
+            expect(result.resourceDtoContent).toContain('@ApiProperty({ minimum: 0, exclusiveMinimum: true, multipleOf: 5 })');
+            expect(result.resourceDtoContent).toContain('@ApiProperty({ minimum: 0.5, exclusiveMinimum: true, maximum: 1000, exclusiveMaximum: true })');
+            expect(result.resourceDtoContent).toContain("maxItems: 5, uniqueItems: true, type: 'array'");
+            expect(result.resourceDtoContent).toContain('minProperties: 1, maxProperties: 10');
+        });
+    });
+
+    describe('string formats', () => {
+        let formatsSpec: OpenAPISpec;
+
+        beforeEach(async () => {
+            const formatsSpecPath = path.join(__dirname, '../fixtures/formats.openapi.yaml');
+            formatsSpec = await specParser.parseSpec(formatsSpecPath);
+        });
+
+        it('should validate date formats as ISO strings', async () => {
+            const result = await dtoGenerator.generateAllDtosSplit(formatsSpec);
+
+            expect(result.resourceDtoContent).toContain('@IsString()\n  @IsDateString()\n  @ApiProperty()\n  birthday: string');
+            expect(result.resourceDtoContent).not.toContain('@IsDate()');
+        });
+
+        it('should map built-in formats to validators and imports', async () => {
+            const result = await dtoGenerator.generateAllDtosSplit(formatsSpec);
+
+            expect(result.resourceDtoContent).toContain('@IsUrl()\n  @ApiProperty({ required: false })\n  website');
+            expect(result.resourceDtoContent).toContain('@IsFQDN()');
+            expect(result.resourceDtoContent).toContain('@IsIP(4)');
+            expect(result.resourceDtoContent).toContain('@IsBase64()');
+            expect(result.resourceDtoContent).toContain('@IsPhoneNumber()');
+            expect(result.resourceDtoContent).toContain('@IsISO31661Alpha2()');
+            expect(result.resourceDtoContent).toContain('@IsString({ each: true })\n  @IsIP(6, { each: true })');
+            expect(result.resourceDtoContent).toContain('ArrayMinSize, IsUrl, IsFQDN, IsIP, IsBase64, IsPhoneNumber, IsISO31661Alpha2\n} from \'class-validator\'');
+        });
+
+        it('should leave unknown formats as plain strings', async () => {
+            const result = await dtoGenerator.generateAllDtosSplit(formatsSpec);
+
+            expect(result.resourceDtoContent).toContain('@IsString()\n  @ApiProperty({ required: false })\n  customerId?: string');
+        });
+
+        it('should apply custom formats from the configuration', async () => {
+            const customGenerator = new DtoGenerator(undefined, {
+                'customer-id': {validators: [{name: 'IsCustomerId', module: '@acme/validators'}]},
+                'phone': {validators: [{name: 'IsPhoneNumber', args: ["'US'"]}]},
+                'date': {type: 'Date', validators: [{name: 'Type', module: 'class-transformer', args: ['() => Date']}, {name: 'IsDate'}]}
+            });
+
+            const result = await customGenerator.generateAllDtosSplit(formatsSpec);
+
+            expect(result.resourceDtoContent).toContain('@IsString()\n  @IsCustomerId()\n  @ApiProperty({ required: false })\n  customerId?: string');
+            expect(result.resourceDtoContent).toContain("import { IsCustomerId } from '@acme/validators';");
+            expect(result.resourceDtoContent).toContain("@IsPhoneNumber('US')");
+            expect(result.resourceDtoContent).toContain('@Type(() => Date)\n  @IsDate()\n  @ApiProperty()\n  birthday: Date');
+        });
+    });
+
+    describe('recursive schemas', () => {
+        let recursiveSpec: OpenAPISpec;
+
+        beforeEach(async () => {
+            const recursiveSpecPath = path.join(__dirname, '../fixtures/recursive.openapi.yaml');
+            recursiveSpec = await specParser.parseSpec(recursiveSpecPath);
+        });
+
+        it('should type self references with the DTO itself', async () => {
+            const result = await dtoGenerator.generateAllDtosSplit(recursiveSpec);
+
+            expect(result.resourceDtoContent).toContain('@Type(() => CategoryDto)\n  @ApiProperty({ required: false, type: () => CategoryDto })\n  parent?: CategoryDto;');
+            expect(result.resourceDtoContent).toContain('children?: CategoryDto[];');
+        });
+
+        it('should defer references to DTOs declared later in mutually recursive schemas', async () => {
+            const result = await dtoGenerator.generateAllDtosSplit(recursiveSpec);
+            const content = result.resourceDtoContent!;
+
+            expect(content).toContain('type Lazy<T> = T;');
+            expect(content.indexOf('export class CommentDto')).toBeLessThan(content.indexOf('export class ThreadDto'));
+            expect(content).toContain('@Type(() => ThreadDto)\n  @ApiProperty({ required: false, type: () => ThreadDto })\n  thread?: Lazy<ThreadDto>;');
+            expect(content).toContain('comments?: CommentDto[];');
+        });
+
+        it('should not defer references to DTOs that are already declared', async () => {
+            const result = await dtoGenerator.generateAllDtosSplit(testSpec);
+
+            expect(result.resourceDtoContent).not.toContain('Lazy<');
+        });
+
+        it('should keep self references typed for unresolved schemas', async () => {
+            const unresolvedSpec: OpenAPISpec = {
+                openapi: '3.0.3',
+                info: {title: 'Tree', version: '1.0.0'},
+                paths: {},
+                components: {
+                    schemas: {
+                        Node: {
+                            type: 'object',
+                            properties: {
+                                next: {$ref: '#/components/schemas/Node'}
+                            }
+                        }
+                    }
+                }
+            };
+
+            const result = await dtoGenerator.generateDto('NodeDto', unresolvedSpec.components!.schemas!.Node, unresolvedSpec);
+
+            expect(result).toContain('next?: NodeDto;');
+            expect(result).toContain('@Type(() => NodeDto)');
+        });
+    });
+
+    describe('enum generation', () => {
+        let enumsSpec: OpenAPISpec;
+
+        beforeEach(async () => {
+            const enumsSpecPath = path.join(__dirname, '../fixtures/enums.openapi.yaml');
+            enumsSpec = await specParser.parseSpec(enumsSpecPath);
+        });
+
+        it('should sanitize and de-collide enum member names', async () => {
+            const result = await dtoGenerator.generateAllDtosSplit(enumsSpec);
+
+            expect(result.resourceDtoContent).toContain("IN_PROGRESS = 'in-progress',\n  _2FA = '2fa',\n  ETE = 'ÉTÉ',\n  DONE = 'done',\n  DONE_2 = 'DONE'");
+        });
+
+        it('should generate numeric enums with x-enum-varnames and descriptions', async () => {
+            const result = await dtoGenerator.generateAllDtosSplit(enumsSpec);
+
+            expect(result.resourceDtoContent).toContain('export enum Priority {\n  /** Can wait */\n  Low = 1,');
+            expect(result.resourceDtoContent).toContain('High = 3\n}');
+            expect(result.resourceDtoContent).toContain('VALUE_0 = 0,\n  VALUE_1 = 1,\n  VALUE_5 = 5');
+            expect(result.resourceDtoContent).toContain('@IsInt()\n  @IsEnum(Priority)\n  @ApiProperty({ required: false, enum: [1, 2, 3] })');
+        });
+
+        it('should generate mixed enums', async () => {
+            const result = await dtoGenerator.generateAllDtosSplit(enumsSpec);
+
+            expect(result.resourceDtoContent).toContain("LIGHT = 'light',\n  VALUE_10 = 10");
+            expect(result.resourceDtoContent).toContain("@IsEnum(TaskWeightEnum)\n  @ApiProperty({ required: false, enum: ['light', 10] })");
+        });
+
+        it('should generate as const objects when configured', async () => {
+            const constGenerator = new DtoGenerator(undefined, undefined, 'const');
+            const result = await constGenerator.generateAllDtosSplit(enumsSpec);
+
+            expect(result.resourceDtoContent).toContain('export const Priority = {\n  /** Can wait */\n  Low: 1,');
+            expect(result.resourceDtoContent).toContain('} as const;\nexport type Priority = typeof Priority[keyof typeof Priority];');
+            expect(result.resourceDtoContent).not.toContain('export enum');
+        });
+    });
+
+    describe('enum naming', () => {
+        let namingSpec: OpenAPISpec;
+
+        beforeEach(async () => {
+            namingSpec = await specParser.parseSpec(path.join(__dirname, '../fixtures/enum-naming.openapi.yaml'));
+        });
+
+        afterEach(() => {
+            jest.restoreAllMocks();
+        });
+
+        it('should name inline enums after the declaring schema', async () => {
+            const result = await dtoGenerator.generateAllDtosSplit(namingSpec);
+
+            expect(result.resourceDtoContent).toContain('role: AccountRoleEnum;');
+            expect(result.resourceDtoContent).toContain('theme?: AccountSettingsThemeEnum = AccountSettingsThemeEnum.AUTO;');
+            expect(result.resourceDtoContent).toContain('export enum ListingStatusEnum');
+            expect(result.resourceDtoContent).toContain("export enum AccountSettingsThemeEnum {\n  LIGHT = 'light',\n  DARK = 'dark',\n  AUTO = 'auto'\n}");
+        });
+
+        it('should declare enums for array items', async () => {
+            const result = await dtoGenerator.generateAllDtosSplit(namingSpec);
+
+            expect(result.resourceDtoContent).toContain('export enum AccountChannelsEnum');
+            expect(result.resourceDtoContent).toContain('@ApiProperty({ required: false, isArray: true, enum: AccountChannelsEnum })\n  channels?: AccountChannelsEnum[];');
+        });
+
+        it('should share enums with inherited and write models', async () => {
+            const result = await dtoGenerator.generateAllDtosSplit(namingSpec);
+
+            expect(result.resourceDtoContent).not.toContain('CatStatusEnum');
+            expect(result.resourceDtoContent).not.toContain('AccountCreateRoleEnum');
+            expect(result.resourceDtoContent!.match(/status\?: PetStatusEnum;/g)).toHaveLength(2);
+            expect(result.resourceDtoContent!.match(/role: AccountRoleEnum;/g)).toHaveLength(2);
+        });
+
+        it('should use x-enum-name', async () => {
+            const result = await dtoGenerator.generateAllDtosSplit(namingSpec);
+
+            expect(result.resourceDtoContent!.match(/export enum ShippingSpeed \{/g)).toHaveLength(1);
+            expect(result.resourceDtoContent!.match(/speed\?: ShippingSpeed;/g)).toHaveLength(2);
+        });
+
+        it('should keep enum names when schemas with the same values are added', async () => {
+            const before = await dtoGenerator.generateAllDtosSplit(namingSpec);
+            namingSpec.components!.schemas = {
+                Auction: { type: 'object', properties: { status: { type: 'string', enum: ['available', 'sold'] } } },
+                ...namingSpec.components!.schemas
+            };
+            const after = await dtoGenerator.generateAllDtosSplit(namingSpec);
+
+            expect(before.resourceDtoContent).toContain('status?: ListingStatusEnum;');
+            expect(after.resourceDtoContent).toContain('status?: ListingStatusEnum;');
+            expect(after.resourceDtoContent).toContain('status?: AuctionStatusEnum;');
+        });
+
+        it('should warn when different enums share a name', async () => {
+            const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+            (namingSpec.components!.schemas!.Quote as any).properties.speed.enum = ['economy', 'overnight'];
+
+            const result = await dtoGenerator.generateAllDtosSplit(namingSpec);
+
+            expect(result.resourceDtoContent!.match(/export enum ShippingSpeed \{/g)).toHaveLength(1);
+            expect(warn).toHaveBeenCalledWith(expect.anything(), expect.stringContaining('Enum name ShippingSpeed is used by enums with different values'));
+        });
+    });
+
+    describe('query parameter DTOs', () => {
+        let querySpec: OpenAPISpec;
+        let querySchemas: Map<string, any>;
+
+        beforeEach(async () => {
+            querySpec = await specParser.parseSpec(path.join(__dirname, '../fixtures/query.openapi.yaml'));
+            const controllerGenerator = new ControllerGenerator(undefined, false, true, { useSingleRequestParameter: true });
+            await controllerGenerator.generateController('query', querySpec.paths, querySpec);
+            querySchemas = controllerGenerator.getQueryParameterSchemas();
+        });
+
+        it('should generate a validated DTO for the query parameters', async () => {
+            const result = await dtoGenerator.generateAllDtosSplit(querySpec, undefined, querySchemas);
+
+            expect(result.resourceDtoContent).toContain('export class ListOrdersQueryDto');
+            expect(result.resourceDtoContent).toContain("@IsString()\n  @MinLength(2)\n  @ApiProperty({ description: 'Free text search' })\n  search: string;");
+            expect(result.resourceDtoContent).toContain('@IsEnum(ListOrdersQueryStatusEnum)');
+        });
+
+        it('should convert query string values before validation', async () => {
+            const result = await dtoGenerator.generateAllDtosSplit(querySpec, undefined, querySchemas);
+
+            expect(result.resourceDtoContent).toContain("import { Type, Transform, Expose } from 'class-transformer';");
+            expect(result.resourceDtoContent).toContain('@Max(100)\n  @Type(() => Number)\n  @ApiProperty(');
+            expect(result.resourceDtoContent).toContain('@Transform(({ value }) => (Array.isArray(value) ? value : [value]))\n  @ApiProperty({ required: false, isArray: true, type: () => String })\n  tags?: string[];');
+            expect(result.resourceDtoContent).toContain('@Transform(({ value }) => (Array.isArray(value) ? value : [value]).map(Number))');
+            expect(result.resourceDtoContent).toContain("@Transform(({ value }) => (value === 'true' ? true : value === 'false' ? false : value))");
+        });
+
+        it('should camelCase query keys that are no valid property names and expose the keys', async () => {
+            const result = await dtoGenerator.generateAllDtosSplit(querySpec, undefined, querySchemas);
+
+            expect(result.resourceDtoContent).toContain("@IsEnum(ListOrdersQuerySortByEnum)\n  @Expose({ name: 'sort-by' })\n  @ApiProperty({ name: 'sort-by', required: false, enum: ['createdAt', 'total'] })\n  sortBy?: ListOrdersQuerySortByEnum;");
+            expect(result.resourceDtoContent).toContain("@Expose({ name: 'page[size]' })\n  @ApiProperty({ name: 'page[size]', required: false, minimum: 1 })\n  pageSize?: number;");
+        });
+
+        it('should read bracketed query keys from the nested objects of the extended query parser', async () => {
+            const result = await dtoGenerator.generateAllDtosSplit(querySpec, undefined, querySchemas);
+
+            expect(result.resourceDtoContent).toContain("@Min(1)\n  @Transform(({ value, obj }) => value ?? obj['page']?.['size'])\n  @Transform(({ value }) => (value === undefined ? value : Number(value)))\n  @Expose({ name: 'page[size]' })");
+            expect(result.resourceDtoContent).not.toContain("obj['sort-by']");
+        });
+
+        it('should expose the keys of exploded form object properties', async () => {
+            const styleSpec = await specParser.parseSpec(path.join(__dirname, '../fixtures/query-style.openapi.yaml'));
+            const controllerGenerator = new ControllerGenerator(undefined, false, true, { useSingleRequestParameter: true });
+            await controllerGenerator.generateController('query-style', styleSpec.paths, styleSpec);
+            const result = await dtoGenerator.generateAllDtosSplit(styleSpec, undefined, controllerGenerator.getQueryParameterSchemas());
+
+            expect(result.resourceDtoContent).toContain("@Expose({ name: 'page-token' })\n  @ApiProperty({ name: 'page-token', required: false })\n  pageToken?: string;");
+        });
+    });
+
+    describe('query parameter serialization', () => {
+        let styleSpec: OpenAPISpec;
+
+        beforeEach(async () => {
+            styleSpec = await specParser.parseSpec(path.join(__dirname, '../fixtures/query-style.openapi.yaml'));
+        });
+
+        it('should split delimited arrays in query DTOs', async () => {
+            const controllerGenerator = new ControllerGenerator(undefined, false, true, { useSingleRequestParameter: true });
+            await controllerGenerator.generateController('query-style', styleSpec.paths, styleSpec);
+            const result = await dtoGenerator.generateAllDtosSplit(styleSpec, undefined, controllerGenerator.getQueryParameterSchemas());
+
+            expect(result.resourceDtoContent).toContain("@Transform(({ value }) => (Array.isArray(value) ? value : String(value).split(',')).map(Number))\n  @ApiProperty({ isArray: true, type: () => Number })\n  ids: number[];");
+            expect(result.resourceDtoContent).toContain("@Transform(({ value }) => (Array.isArray(value) ? value : String(value).split('|')))");
+            expect(result.resourceDtoContent).toContain('@Transform(({ value }) => (Array.isArray(value) ? value : [value]))\n  @ApiProperty({ required: false, isArray: true, type: () => String })\n  tags?: string[];');
+        });
+
+        it('should convert the values of nested deepObject DTOs', async () => {
+            const controllerGenerator = new ControllerGenerator(undefined, false, true, { useSingleRequestParameter: true });
+            await controllerGenerator.generateController('query-style', styleSpec.paths, styleSpec);
+            const result = await dtoGenerator.generateAllDtosSplit(styleSpec, undefined, controllerGenerator.getQueryParameterSchemas());
+
+            expect(result.resourceDtoContent).toContain('@Type(() => ListTicketsQueryFilterDto)');
+            expect(result.resourceDtoContent).toContain('@IsInt()\n  @Type(() => Number)\n  @ApiProperty({ required: false })\n  minPriority?: number;');
+            expect(result.resourceDtoContent).toContain('@IsInt()\n  @Type(() => Number)\n  @ApiProperty({ required: false })\n  offset?: number;');
+        });
+
+        it('should convert the values of referenced deepObject DTOs', async () => {
+            const result = await dtoGenerator.generateAllDtosSplit(styleSpec);
+
+            expect(result.resourceDtoContent).toContain('@IsInt()\n  @Type(() => Number)\n  @ApiProperty({ required: false })\n  priority?: number;');
+        });
+
+        it('should generate DTOs for object query parameters', async () => {
+            const controllerGenerator = new ControllerGenerator();
+            await controllerGenerator.generateController('query-style', styleSpec.paths, styleSpec);
+            const result = await dtoGenerator.generateAllDtosSplit(styleSpec, undefined, controllerGenerator.getQueryParameterSchemas());
+
+            expect(result.resourceDtoContent).toContain('export class ListTicketsQueryFilterDto');
+            expect(result.resourceDtoContent).toContain('@IsInt()\n  @Type(() => Number)\n  @ApiProperty()\n  offset: number;');
+            expect(result.resourceDtoContent).not.toContain('export class ListTicketsQueryDto');
+        });
+    });
+
+    describe('form body DTOs', () => {
+        it('should convert multipart field values before validation', async () => {
+            const uploadSpec = await specParser.parseSpec(path.join(__dirname, '../fixtures/uploads.openapi.yaml'));
+            const controllerGenerator = new ControllerGenerator();
+            await controllerGenerator.generateController('uploads', uploadSpec.paths, uploadSpec);
+            const result = await dtoGenerator.generateAllDtosSplit(uploadSpec, undefined, controllerGenerator.getFormBodySchemas());
+
+            expect(result.resourceDtoContent).toContain('export class UploadAvatarBodyDto');
+            expect(result.resourceDtoContent).toContain('@Min(16)\n  @Type(() => Number)\n  @ApiProperty({ required: false, minimum: 16 })\n  cropSize?: number;');
+            expect(result.resourceDtoContent).toContain("@Transform(({ value }) => (value === 'true' ? true : value === 'false' ? false : value))\n  @ApiProperty({ required: false })\n  public?: boolean;");
+            expect(result.resourceDtoContent).not.toMatch(/class CreateDocumentBodyDto[^}]*file/);
+        });
+    });
+
+    describe('deprecated properties', () => {
+        it('should document deprecated properties for Swagger and IDEs', async () => {
+            const deprecationSpec = await specParser.parseSpec(path.join(__dirname, '../fixtures/deprecation.openapi.yaml'));
+            const result = await dtoGenerator.generateAllDtosSplit(deprecationSpec);
+
+            expect(result.resourceDtoContent).toContain("/**\n   * Total amount\n   * @deprecated\n   */\n  @IsOptional()");
+            expect(result.resourceDtoContent).toContain("@ApiProperty({ description: 'Total amount', required: false, deprecated: true })");
+            expect(result.resourceDtoContent).toContain('  /** @deprecated */\n  @IsOptional()\n  @IsString()\n  @ApiProperty({ required: false, deprecated: true })\n  legacyCode?: string;');
+            expect(result.resourceDtoContent).not.toMatch(/@deprecated \*\/\s+@IsString\(\)\s+@ApiProperty\(\)\s+id:/);
+        });
+
+        it('should keep deprecated query parameters deprecated in query DTOs', async () => {
+            const deprecationSpec = await specParser.parseSpec(path.join(__dirname, '../fixtures/deprecation.openapi.yaml'));
+            const controllerGenerator = new ControllerGenerator(undefined, false, true, { useSingleRequestParameter: true });
+            await controllerGenerator.generateController('deprecation', deprecationSpec.paths, deprecationSpec);
+            const result = await dtoGenerator.generateAllDtosSplit(deprecationSpec, undefined, controllerGenerator.getQueryParameterSchemas());
+
+            expect(result.resourceDtoContent).toContain("@ApiProperty({ description: 'Use status instead', required: false, deprecated: true })\n  state?: string;");
+        });
+    });
+
+    describe('additionalProperties maps', () => {
+        it('should type maps as Record with the value schema type', async () => {
+            const complexSpec = await specParser.parseSpec(path.join(__dirname, '../fixtures/complex-nested.openapi.yaml'));
+            const result = await dtoGenerator.generateAllDtosSplit(complexSpec);
+
+            expect(result.resourceDtoContent).toContain('headers?: Record<string, string>');
+            expect(result.resourceDtoContent).toContain('customFields?: Record<string, CustomFieldDto>');
+            expect(result.resourceDtoContent).toContain('metadata?: Record<string, any>');
+        });
+
+        it('should validate map values', async () => {
+            const complexSpec = await specParser.parseSpec(path.join(__dirname, '../fixtures/complex-nested.openapi.yaml'));
+            const result = await dtoGenerator.generateAllDtosSplit(complexSpec);
+
+            expect(result.resourceDtoContent).toContain("@IsObject()\n  @ValidateRecord(() => 'string')");
+            expect(result.resourceDtoContent).toContain('@IsObject()\n  @ValidateRecord(() => CustomFieldDto)');
+            expect(result.resourceDtoContent).toContain('function ValidateRecord(');
+            expect(result.resourceDtoContent).toContain('function matchesSchemaBranch(');
+            expect(result.resourceDtoContent).not.toContain('function ValidateUnion(');
+        });
+
+        it('should describe the map shape in ApiProperty', async () => {
+            const complexSpec = await specParser.parseSpec(path.join(__dirname, '../fixtures/complex-nested.openapi.yaml'));
+            const result = await dtoGenerator.generateAllDtosSplit(complexSpec);
+
+            expect(result.resourceDtoContent).toContain("type: 'object', additionalProperties: { type: 'string' }");
+            expect(result.resourceDtoContent).toContain("type: 'object', additionalProperties: { $ref: getSchemaPath(CustomFieldDto) }");
+            expect(result.resourceDtoContent).toContain("type: 'object', additionalProperties: true");
+            expect(result.resourceDtoContent).toContain('@ApiExtraModels(CustomFieldDto)');
+        });
+
+        it('should generate DTOs for inline map value objects', async () => {
+            const spec: OpenAPISpec = {
+                openapi: '3.0.3',
+                info: {title: 'Translations', version: '1.0.0'},
+                paths: {},
+                components: {
+                    schemas: {
+                        Catalog: {
+                            type: 'object',
+                            required: ['labels'],
+                            properties: {
+                                labels: {
+                                    type: 'object',
+                                    additionalProperties: {
+                                        type: 'object',
+                                        required: ['text'],
+                                        properties: {text: {type: 'string'}}
+                                    }
+                                }
+                            }
+                        }
+                    }
+                }
+            };
+
+            const result = await dtoGenerator.generateAllDtosSplit(spec);
+
+            expect(result.resourceDtoContent).toContain('labels: Record<string, CatalogLabelsValueDto>');
+            expect(result.resourceDtoContent).toContain('export class CatalogLabelsValueDto');
+            expect(result.resourceDtoContent).toContain('@ValidateRecord(() => CatalogLabelsValueDto)');
+        });
+
+        it('should type and validate additional properties next to declared ones', async () => {
+            const spec: OpenAPISpec = {
+                openapi: '3.0.3',
+                info: {title: 'Settings', version: '1.0.0'},
+                paths: {},
+                components: {
+                    schemas: {
+                        Settings: {
+                            type: 'object',
+                            required: ['version'],
+                            properties: {
+                                version: {type: 'integer'},
+                                theme: {type: 'string'}
+                            },
+                            additionalProperties: {
+                                type: 'object',
+                                properties: {enabled: {type: 'boolean'}}
+                            }
+                        }
+                    }
+                }
+            };
+
+            const result = await dtoGenerator.generateAllDtosSplit(spec);
+
+            expect(result.resourceDtoContent).toContain(
+                'export class SettingsDto {\n' +
+                '  [key: string]: SettingsValueDto | number | string | undefined;\n\n' +
+                "  @ValidateAdditionalProperties(['version', 'theme'], () => SettingsValueDto)\n" +
+                '  private readonly additionalProperties?: never;\n\n' +
+                '  @IsInt()'
+            );
+            expect(result.resourceDtoContent).toContain('export class SettingsValueDto');
+            expect(result.resourceDtoContent).toContain('function ValidateAdditionalProperties(');
+            expect(result.resourceDtoContent).toContain('function matchesSchemaBranch(');
+        });
+
+        it('should give component schemas that are maps an index signature', async () => {
+            const spec: OpenAPISpec = {
+                openapi: '3.0.3',
+                info: {title: 'Labels', version: '1.0.0'},
+                paths: {},
+                components: {
+                    schemas: {
+                        Labels: {
+                            type: 'object',
+                            additionalProperties: {type: 'string'}
+                        },
+                        Metadata: {
+                            type: 'object',
+                            additionalProperties: true
+                        }
+                    }
+                }
+            };
+
+            const result = await dtoGenerator.generateAllDtosSplit(spec);
+
+            expect(result.resourceDtoContent).toContain(
+                'export class LabelsDto {\n' +
+                '  [key: string]: string | undefined;\n\n' +
+                "  @ValidateAdditionalProperties([], () => 'string')\n" +
+                '  private readonly additionalProperties?: never;'
+            );
+            expect(result.resourceDtoContent).toContain('export class MetadataDto {\n  [key: string]: any;\n\n}');
+        });
+    });
+
     describe('edge cases', () => {
         it('should handle schema without properties', async () => {
             const emptySchema: SchemaObject = {
@@ -432,7 +1287,7 @@ describe('DtoGenerator', () => {
             const result = await dtoGenerator.generateDto('UserDto', userSchema, testSpec);
 
             // Should handle metadata object with additionalProperties
-            expect(result).toContain('metadata?: object');
+            expect(result).toContain('metadata?: Record<string, any>');
         });
 
         it('should handle array of objects with references', async () => {
@@ -645,6 +645,37 @@ describe('Inline Response DTO Generation', () => {
         });
     });
 
+    describe('nested inline objects in response DTOs', () => {
+        let inlineSpec: OpenAPISpec;
+        let dtoContent: string;
+
+        beforeEach(async () => {
+            inlineSpec = await specParser.parseSpec(path.join(__dirname, '../fixtures/inline-response.openapi.yaml'));
+            await controllerGenerator.generateController('order', inlineSpec.paths, inlineSpec);
+            const result = await dtoGenerator.generateAllDtosSplit(inlineSpec, controllerGenerator.getInlineResponseSchemas());
+            dtoContent = result.resourceDtoContent!;
+        });
+
+        it('should generate typed DTOs for nested inline objects', async () => {
+            expect(dtoContent).toContain('export class ListOrdersResponseDataDto');
+            expect(dtoContent).toContain('export class ListOrdersResponseMetaDto');
+            expect(dtoContent).toContain('@ValidateNested()\n  @Type(() => ListOrdersResponseDataDto)\n  @ApiProperty({ type: () => ListOrdersResponseDataDto })\n  data: ListOrdersResponseDataDto;');
+            expect(dtoContent).not.toContain(': any;');
+        });
+
+        it('should generate typed DTOs for inline array items at any depth', async () => {
+            expect(dtoContent).toContain('@ValidateNested({ each: true })\n  @Type(() => ListOrdersResponseDataItemsItemDto)');
+            expect(dtoContent).toContain('items: ListOrdersResponseDataItemsItemDto[];');
+            expect(dtoContent).toContain('lines?: ListOrdersResponseDataItemsItemLinesItemDto[];');
+            expect(dtoContent).toContain('export class ListOrdersResponseDataItemsItemLinesItemDto');
+        });
+
+        it('should reuse component DTOs for matching inline objects', async () => {
+            expect(dtoContent).toContain('shippingAddress?: AddressDto;');
+            expect(dtoContent).not.toContain('ShippingAddressDto');
+        });
+    });
+
     describe('edge cases and error handling', () => {
         it('should handle responses without content', async () => {
             const pathsWithNoContent = {
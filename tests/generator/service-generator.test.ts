@@ -179,6 +179,100 @@ describe('ServiceGenerator', () => {
     });
   });
 
+  describe('query parameter DTOs', () => {
+    it('should accept the query DTO when query parameters are grouped', async () => {
+      const querySpec = await specParser.parseSpec(path.join(__dirname, '../fixtures/query.openapi.yaml'));
+      const generator = new ServiceGenerator(undefined, true, { useSingleRequestParameter: true });
+      const result = await generator.generateService('query', querySpec.paths, querySpec);
+
+      expect(result).toContain('storeId: string,\n    query: ListOrdersQueryDto');
+      expect(result).not.toContain('search: string');
+      expect(result).toContain("import { OrderDto, ListOrdersQueryDto } from './query.dto'");
+    });
+
+    it('should put the query DTO before optional header parameters', async () => {
+      const nullableSpec = await specParser.parseSpec(path.join(__dirname, '../fixtures/nullable.openapi.yaml'));
+      const generator = new ServiceGenerator(undefined, true, { useSingleRequestParameter: true });
+      const result = await generator.generateService('nullable', nullableSpec.paths, nullableSpec);
+
+      expect(result).toContain('async listAccounts(\n    query: ListAccountsQueryDto,\n    xRegion?: string | null\n  )');
+    });
+
+    it('should keep individual query parameters when DTO generation is disabled', async () => {
+      const querySpec = await specParser.parseSpec(path.join(__dirname, '../fixtures/query.openapi.yaml'));
+      const generator = new ServiceGenerator(undefined, false, { useSingleRequestParameter: true });
+      const result = await generator.generateService('query', querySpec.paths, querySpec);
+
+      expect(result).toContain('storeId: string,\n    search: string');
+      expect(result).not.toContain('ListOrdersQueryDto');
+    });
+
+    it('should type object query parameters as DTOs', async () => {
+      const styleSpec = await specParser.parseSpec(path.join(__dirname, '../fixtures/query-style.openapi.yaml'));
+      const result = await serviceGenerator.generateService('query-style', styleSpec.paths, styleSpec);
+
+      expect(result).toContain('ids: number[],\n    filter?: ListTicketsQueryFilterDto,\n    labels?: string[],\n    page?: ListTicketsQueryPageDto,\n    sort?: SortOrderDto,\n    tags?: string[]');
+      expect(result).toContain("import { TicketDto, ListTicketsQueryFilterDto, ListTicketsQueryPageDto, SortOrderDto } from './query-style.dto'");
+    });
+  });
+
+  describe('path-level parameters', () => {
+    it('should merge path item parameters with operation overrides', async () => {
+      const pathSpec = await specParser.parseSpec(path.join(__dirname, '../fixtures/path-parameters.openapi.yaml'));
+      const result = await serviceGenerator.generateService('path-parameters', pathSpec.paths, pathSpec);
+
+      expect(result).toContain('async listProjects(\n    tenantId: string,\n    limit?: number\n  )');
+      expect(result).toContain('async getProject(\n    projectId: number,\n    tenantId: string,\n    xRequestId?: string\n  )');
+      expect(result).toContain('async deleteProject(\n    projectId: string,\n    tenantId: string,\n    xRequestId?: string\n  )');
+    });
+  });
+
+  describe('cookie parameters', () => {
+    it('should accept typed cookie arguments', async () => {
+      const cookieSpec = await specParser.parseSpec(path.join(__dirname, '../fixtures/cookies.openapi.yaml'));
+      const result = await serviceGenerator.generateService('cookies', cookieSpec.paths, cookieSpec);
+
+      expect(result).toContain('async getCart(\n    sessionId: string,\n    xPage?: number,\n    cartVersion?: number\n  )');
+    });
+  });
+
+  describe('multipart file uploads', () => {
+    it('should accept the form body DTO and uploaded files', async () => {
+      const uploadSpec = await specParser.parseSpec(path.join(__dirname, '../fixtures/uploads.openapi.yaml'));
+      const result = await serviceGenerator.generateService('uploads', uploadSpec.paths, uploadSpec);
+
+      expect(result).toContain('async uploadAvatar(\n    userId: string,\n    body: UploadAvatarBodyDto,\n    avatar: Express.Multer.File\n  )');
+      expect(result).toContain('async uploadPhotos(\n    albumId: string,\n    photos?: Express.Multer.File[]\n  )');
+      expect(result).toContain('async createDocument(\n    body: CreateDocumentBodyDto,\n    files: { file?: Express.Multer.File[]; thumbnail?: Express.Multer.File[] }\n  )');
+      expect(result).toContain("import { UploadAvatarBodyDto, CreateDocumentBodyDto, DocumentDto } from './uploads.dto'");
+    });
+  });
+
+  describe('non-JSON request bodies', () => {
+    it('should type bodies by their media type', async () => {
+      const mediaSpec = await specParser.parseSpec(path.join(__dirname, '../fixtures/media-types.openapi.yaml'));
+      const result = await serviceGenerator.generateService('media-types', mediaSpec.paths, mediaSpec);
+
+      expect(result).toContain('async receivePaymentWebhook(\n    body: ReceivePaymentWebhookBodyDto\n  )');
+      expect(result).toContain('async createNote(\n    body: string\n  )');
+      expect(result).toContain('async putBlob(\n    id: string,\n    body: Buffer\n  )');
+      expect(result).toContain('async publishEvent(\n    body: EventDto\n  )');
+      expect(result).toContain("import { ReceivePaymentWebhookBodyDto, ImportRequestDto, EventDto } from './media-types.dto'");
+    });
+  });
+
+  describe('non-JSON responses', () => {
+    it('should return strings for text responses and buffers for files', async () => {
+      const downloadsSpec = await specParser.parseSpec(path.join(__dirname, '../fixtures/downloads.openapi.yaml'));
+      const result = await serviceGenerator.generateService('downloads', downloadsSpec.paths, downloadsSpec);
+
+      expect(result).toContain('async downloadInvoice(\n    invoiceId: string\n  ): Promise<Buffer>');
+      expect(result).toContain('async exportReport(\n  ): Promise<string>');
+      expect(result).toContain('async getLatestProblem(\n  ): Promise<ErrorDto>');
+      expect(result).toContain("import { ErrorDto } from './downloads.dto';");
+    });
+  });
+
   describe('request body handling', () => {
     it('should generate proper body parameters for request bodies', async () => {
       const result = await serviceGenerator.generateService('user', testSpec.paths, testSpec);
@@ -209,6 +303,20 @@ describe('ServiceGenerator', () => {
       expect(result).toContain('): Promise<void>'); // for delete operations
       expect(result).toContain('): Promise<any>'); // for inline object responses
     });
+
+    it('should type nullable and union responses and bodies like the controller', async () => {
+      const nullableSpec = await specParser.parseSpec(path.join(__dirname, '../fixtures/nullable.openapi.yaml'));
+      const polymorphicSpec = await specParser.parseSpec(path.join(__dirname, '../fixtures/polymorphic.openapi.yaml'));
+
+      const nullableResult = await serviceGenerator.generateService('nullable', nullableSpec.paths, nullableSpec);
+      const polymorphicResult = await serviceGenerator.generateService('polymorphic', polymorphicSpec.paths, polymorphicSpec);
+
+      expect(nullableResult).toContain('): Promise<AccountDto[]>');
+      expect(nullableResult).toContain('): Promise<ManagerDto | null>');
+      expect(nullableResult).toContain("import { AccountDto, ManagerDto } from './nullable.dto'");
+      expect(polymorphicResult).toContain('body: CardPaymentDto | BankTransferPaymentDto');
+      expect(polymorphicResult).toContain('): Promise<EmailChannelDto | SmsChannelDto>');
+    });
   });
 
   describe('edge cases', () => {